@@ -1,10 +1,41 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { SortPriority, Reference, SearchPreferences, SelectionContext, SearchResultData, DisapprovalReason, ModelId } from './types';
-import { fetchReferences } from './services/geminiService';
+import { SortPriority, EvidenceMode, Reference, SearchPreferences, SelectionContext, SearchResultData, DisapprovalReason, ModelId, ProviderId, ProviderSettings, VerificationStatus, LibraryEntry, LibraryMatch, PreferenceProfile, CustomReason, DisapprovalHistoryItem } from './types';
+import { fetchReferences, fetchMoreReferences, listProviders, getProvider, FetchResult, DEFAULT_TIMEOUT_MS } from './services/referenceService';
+import { classifyError, describeSearchError } from './services/requestControl';
+import { createSearchQueue, DEFAULT_CONCURRENCY } from './services/searchQueue';
+import { DEFAULT_METADATA_URL } from './services/metadataService';
 import { Spinner } from './components/Spinner';
+import { ModelSelector } from './components/ModelSelector';
 import { ReferenceCard } from './components/ReferenceCard';
 import { MultiSelect } from './components/MultiSelect';
 import { HelpModal } from './components/HelpModal';
+import { CacheInspector } from './components/CacheInspector';
+import { ClaimSuggestions } from './components/ClaimSuggestions';
+import { BatchProgress, BatchItem } from './components/BatchProgress';
+import { LibraryPanel } from './components/LibraryPanel';
+import { LibraryMatches } from './components/LibraryMatches';
+import { loadLibrary, saveLibrary, createLibraryEntry, findLibraryEntry, mergeLibrary, importIntoLibrary } from './services/referenceLibrary';
+import { importLibraryFile } from './services/libraryImport';
+import { rankLibraryMatches } from './services/libraryMatch';
+import { excludeKnown, identityKey } from './services/referenceIdentity';
+import { loadProfile, saveProfile, learnFromFeedback, applyProfile, isEmptyProfile, likePaper, unlikePaper, findLikedPaper } from './services/preferenceProfile';
+import { PreferenceProfilePanel } from './components/PreferenceProfilePanel';
+import { CustomReasonsEditor } from './components/CustomReasonsEditor';
+import { meetsSupportFilter } from './services/claimSupport';
+import { loadCustomReasons, saveCustomReasons, addCustomReason, cleanReason } from './services/customReasons';
+import { loadEndpoints, saveEndpoints } from './services/providerSettings';
+import { detectClaims, ClaimSuggestion } from './services/claimDetection';
+import { ExportMenu, ExportOption } from './components/ExportMenu';
+import { createDocx, DOCX_MIME_TYPE } from './services/docxExport';
+import { collectCitedManuscript, downloadFile, renderManuscriptText, renderManuscriptHtml, createLatexBundle } from './services/exportService';
+import { CITATION_STYLES, CitationStyleId, getCitationStyle } from './services/citationStyles';
+import { captureEditor, restoreEditor, createHighlightSpan, removeHighlight, findExistingCitation, markSuggestions, removeSuggestion } from './services/editorDocument';
+import { importManuscript, isManuscriptFile, MANUSCRIPT_EXTENSIONS } from './services/manuscriptImport';
+import { SessionData, createSessionId, sessionTitle, listSessions, loadSession, saveSession, deleteSession, getLastSessionId } from './services/sessionStore';
+import { SessionsMenu } from './components/SessionsMenu';
+import { serializeProject, parseProject, PROJECT_FILE_EXTENSION } from './services/projectFile';
+import { toBibTeX, toRIS, toCslJson } from './services/bibliographyFormats';
+import { mergeGrounding } from './services/grounding';
 
 const DEFAULT_TEXT = `The use of self-driving labs (SDLs) that operate in a “closed-loop” manner with minimal human intervention emerged as a promising strategy for addressing this challenge. These labs operate via iterative nanoparticle (NP) syntheses by integrating automation, e.g., robotics or microfluidics (MFs), NP characterization, and machine learning (ML). Automation enables control over reagent injection, mixing, heating, and separation. In particular, MFs offers flow-controlled reagent supply, enhanced mass and heat transfer, and real-time online NP characterization which provides rapid data acquisition. Despite the advantages of automation, the decision on the next-step syntheses for identification of the most effective NP reaction conditions remains in the hands of the operator. Here, ML algorithms play a pivotal role in inferring relationships between reaction conditions and corresponding NP properties, thereby recommending experimental conditions for subsequent optimization steps without examining the entire chemical space. Application of ML algorithms in SDLs include the stable noisy optimization by branch and fit algorithm (SNOBFIT), covariance matrix adaptation evolution strategy (CMA-ES), genetic algorithm, and Bayesian optimization (BO).`;
 
@@ -19,9 +50,53 @@ const TYPE_OPTIONS = [
   "Conference Proceedings", "Book Chapter"
 ];
 
+const EXPORT_OPTIONS: ExportOption[] = [
+  { id: 'text', label: 'Manuscript (.txt)', description: 'Plain text with citations and a reference list' },
+  { id: 'docx', label: 'Word document (.docx)', description: 'Numbered citations and a formatted reference list' },
+  { id: 'html', label: 'Manuscript (.html)', description: 'Rich text with italics, opens in Word' },
+  { id: 'latex', label: 'LaTeX + BibTeX (.zip)', description: 'main.tex with \\cite keys and references.bib' },
+  { id: 'bibtex', label: 'BibTeX (.bib)', description: 'For LaTeX / Overleaf' },
+  { id: 'ris', label: 'RIS (.ris)', description: 'For EndNote, Mendeley, Zotero' },
+  { id: 'csl-json', label: 'CSL-JSON (.json)', description: 'For Zotero and citeproc tools' },
+  { id: 'project', label: `SciRef project (${PROJECT_FILE_EXTENSION})`, description: 'Manuscript with all searches, to share or reopen' },
+];
+
+const DEFAULT_PREFS: SearchPreferences = {
+  numReferences: 1,
+  priority: SortPriority.MOST_CITED,
+  evidenceMode: EvidenceMode.SUPPORTING,
+  publisherFilter: [],
+  sourceTypes: [],
+  yearStart: '2018',
+  model: ModelId.BALANCED,
+  provider: ProviderId.GEMINI
+};
+
+// Keys start empty; endpoints start where the user left them, or at each provider's default
+const initialProviderSettings = (): Record<string, ProviderSettings> => {
+  const endpoints = loadEndpoints();
+  return Object.fromEntries(listProviders().map(p => [p.id, { apiKey: '', baseUrl: endpoints[p.id] || p.connection?.defaultBaseUrl || '' }]));
+};
+
+// Delay between the last change and writing the session to storage
+const AUTOSAVE_DELAY_MS = 800;
+
+// Unique even when several searches start in the same millisecond (e.g. accepting all suggestions)
+let lastSearchTime = 0;
+const createSearchId = (): string => {
+  lastSearchTime = Math.max(Date.now(), lastSearchTime + 1);
+  return `search-${lastSearchTime}`;
+};
+
+// Whether the user kept this result at the search's highlight
+const isApproved = (data: SearchResultData, ref: Reference): boolean =>
+  (data.approved || []).includes(identityKey(ref));
+
 const App: React.FC = () => {
   // State for Editor
   const editorRef = useRef<HTMLDivElement>(null);
+  // One controller per search (or refill) in flight, so Cancel and Clear can stop it
+  const searchControllers = useRef(new Map<string, AbortController>());
   
   // Store results mapped by a unique ID.
   const [searchHistory, setSearchHistory] = useState<Record<string, SearchResultData>>({});
@@ -29,32 +104,211 @@ const App: React.FC = () => {
   
   // UI State
   const [isHelpOpen, setIsHelpOpen] = useState(false);
-  const [customApiKey, setCustomApiKey] = useState('');
+  // Key and endpoint of each provider
+  const [providerSettings, setProviderSettings] = useState<Record<string, ProviderSettings>>(initialProviderSettings);
+  const [metadataUrl, setMetadataUrl] = useState(DEFAULT_METADATA_URL);
+  const [requestTimeoutSec, setRequestTimeoutSec] = useState(DEFAULT_TIMEOUT_MS / 1000);
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [searchQueue] = useState(() => createSearchQueue(DEFAULT_CONCURRENCY));
+  const [queuedIds, setQueuedIds] = useState<string[]>([]);
+  const [suggestions, setSuggestions] = useState<ClaimSuggestion[]>([]);
+  const [activeSuggestionId, setActiveSuggestionId] = useState<string | null>(null);
+  const [batchIds, setBatchIds] = useState<string[] | null>(null); // Searches started by "Cite everything"
+  const [citationStyle, setCitationStyle] = useState<CitationStyleId>(CitationStyleId.IEEE);
+  const [exportSupportedOnly, setExportSupportedOnly] = useState(false);
+  // Personal library, shared by every session
+  const [library, setLibrary] = useState<LibraryEntry[]>(() => loadLibrary());
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
 
   // State for Preferences (Global controls for the *next* search)
-  const [prefs, setPrefs] = useState<SearchPreferences>({
-    numReferences: 1,
-    priority: SortPriority.MOST_CITED,
-    publisherFilter: [],
-    sourceTypes: [],
-    yearStart: '2018',
-    model: ModelId.BALANCED
-  });
+  const [prefs, setPrefs] = useState<SearchPreferences>(DEFAULT_PREFS);
   
   // Track disapproval history for learning
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const [disapprovalHistory, setDisapprovalHistory] = useState<import('./types').DisapprovalHistoryItem[]>([]);
+  // What all that feedback adds up to, shared by every session
+  const [profile, setProfile] = useState<PreferenceProfile>(() => loadProfile());
+  const [isProfileOpen, setIsProfileOpen] = useState(false);
+  // The user's own removal reasons, offered on every card
+  const [customReasons, setCustomReasons] = useState<CustomReason[]>(() => loadCustomReasons());
   
   // Local UI error (validation errors before search starts)
   const [uiError, setUiError] = useState<string | null>(null);
+  const [isCacheOpen, setIsCacheOpen] = useState(false);
+  const [bypassCacheOnRetry, setBypassCacheOnRetry] = useState(false);
 
-  // Initialize editor text
-  useEffect(() => {
+  // Session persistence: which saved manuscript is open, and a counter bumped on every edit
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [editorVersion, setEditorVersion] = useState(0);
+
+  const applySession = (session: SessionData) => {
+    if (editorRef.current) {
+      restoreEditor(editorRef.current, session.editor);
+    }
+    // Searches that were running when the page closed cannot be resumed
+    const restoredHistory: Record<string, SearchResultData> = {};
+    Object.values(session.searchHistory).forEach(data => {
+      restoredHistory[data.id] = data.status === 'loading' || data.status === 'queued'
+        ? { ...data, status: 'error', errorMessage: "This search was interrupted. Click Retry to run it again." }
+        : { ...data, isRefilling: false };
+    });
+    setSearchHistory(restoredHistory);
+    setDisapprovalHistory(session.disapprovalHistory || []);
+    setPrefs({ ...DEFAULT_PREFS, ...session.prefs });
+    setActiveSearchId(session.activeSearchId && restoredHistory[session.activeSearchId] ? session.activeSearchId : null);
+    setSessionId(session.id);
+    setSuggestions([]);
+    setBatchIds(null);
+    setUiError(null);
+  };
+
+  const startNewSession = (text: string) => {
     if (editorRef.current) {
-      editorRef.current.innerText = DEFAULT_TEXT;
+      restoreEditor(editorRef.current, { text, highlights: [] });
+    }
+    setSearchHistory({});
+    setDisapprovalHistory([]);
+    setActiveSearchId(null);
+    setSessionId(createSessionId());
+    setSuggestions([]);
+    setBatchIds(null);
+    setUiError(null);
+  };
+
+  const buildSessionData = (): SessionData | null => {
+    if (!sessionId || !editorRef.current) return null;
+    const editor = captureEditor(editorRef.current);
+    return {
+      id: sessionId,
+      title: sessionTitle(editor.text),
+      updatedAt: Date.now(),
+      editor,
+      searchHistory,
+      disapprovalHistory,
+      prefs,
+      activeSearchId
+    };
+  };
+
+  // The session helpers of the latest render, for the effects below that must not re-run when they change
+  const sessionActions = useRef({ applySession, startNewSession, buildSessionData });
+  sessionActions.current = { applySession, startNewSession, buildSessionData };
+
+  // Restore the last session, or start with the sample text
+  useEffect(() => {
+    const lastId = getLastSessionId();
+    const lastSession = lastId ? loadSession(lastId) : null;
+    if (lastSession) {
+      sessionActions.current.applySession(lastSession);
+    } else {
+      sessionActions.current.startNewSession(DEFAULT_TEXT);
     }
   }, []);
 
+  // Autosave (debounced) whenever the manuscript, searches or settings change
+  useEffect(() => {
+    if (!sessionId) return;
+    const timer = setTimeout(() => {
+      const data = sessionActions.current.buildSessionData();
+      if (data) saveSession(data);
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [sessionId, editorVersion, searchHistory, disapprovalHistory, prefs, activeSearchId]);
+
+  useEffect(() => {
+    if (!saveLibrary(library)) {
+      setUiError("The reference library is too large for browser storage and was not saved. Remove entries or import a smaller library.");
+    }
+  }, [library]);
+
+  useEffect(() => {
+    saveProfile(profile);
+  }, [profile]);
+
+  useEffect(() => {
+    saveCustomReasons(customReasons);
+  }, [customReasons]);
+
+  useEffect(() => {
+    saveEndpoints(providerSettings);
+  }, [providerSettings]);
+
+  useEffect(() => searchQueue.subscribe(setQueuedIds), [searchQueue]);
+
+  useEffect(() => {
+    searchQueue.setConcurrency(concurrency);
+  }, [searchQueue, concurrency]);
+
+  // Mirror each search's status onto its highlight so queued/running/failed claims stand out in the text
+  useEffect(() => {
+    if (!editorRef.current) return;
+    editorRef.current.querySelectorAll<HTMLElement>('span[data-search-id]').forEach(span => {
+      const status = searchHistory[span.dataset.searchId || '']?.status;
+      if (status) span.dataset.searchStatus = status;
+      else delete span.dataset.searchStatus;
+    });
+  }, [searchHistory, editorVersion]);
+
+  const handleOpenSession = (id: string) => {
+    if (id === sessionId) return;
+    const current = buildSessionData();
+    if (current) saveSession(current);
+    const session = loadSession(id);
+    if (session) applySession(session);
+  };
+
+  const handleNewSession = () => {
+    const current = buildSessionData();
+    if (current) saveSession(current);
+    startNewSession('');
+  };
+
+  // Opening a file always creates a new session, so a local copy is never overwritten
+  const handleOpenFile = async (file: File) => {
+    try {
+      if (isManuscriptFile(file.name)) {
+        const editor = await importManuscript(file);
+        const current = buildSessionData();
+        if (current) saveSession(current);
+        applySession({
+          id: createSessionId(),
+          title: sessionTitle(editor.text),
+          updatedAt: Date.now(),
+          editor,
+          searchHistory: {},
+          disapprovalHistory: [],
+          prefs,
+          activeSearchId: null
+        });
+        return;
+      }
+
+      const project = parseProject(await file.text());
+      const current = buildSessionData();
+      if (current) saveSession(current);
+
+      // Shared library entries join ours; pins follow papers we already had
+      const merged = mergeLibrary(library, project.library || []);
+      setLibrary(merged.library);
+      const searchHistory: Record<string, SearchResultData> = {};
+      Object.values(project.searchHistory).forEach(data => {
+        searchHistory[data.id] = data.pinned ? { ...data, pinned: data.pinned.map(id => merged.ids[id] || id) } : data;
+      });
+
+      applySession({
+        id: createSessionId(),
+        title: project.title || sessionTitle(project.editor.text),
+        updatedAt: Date.now(),
+        editor: project.editor,
+        searchHistory,
+        disapprovalHistory: project.disapprovalHistory,
+        prefs: project.prefs || prefs,
+        activeSearchId: null
+      });
+    } catch (e) {
+      setUiError(e instanceof Error ? `Could not open ${file.name}: ${e.message}` : `Could not open ${file.name}.`);
+    }
+  };
+
   // Handlers
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
@@ -63,31 +317,32 @@ const App: React.FC = () => {
       const val = parseInt(value);
       if (val > 5) setPrefs(prev => ({ ...prev, [name]: 5 }));
       else setPrefs(prev => ({ ...prev, [name]: val }));
+    } else if (name === 'provider') {
+      // Each provider has its own models
+      setPrefs(prev => ({ ...prev, provider: value as ProviderId, model: getProvider(value as ProviderId).defaultModel || '' }));
     } else {
       setPrefs(prev => ({ ...prev, [name]: value }));
     }
   };
 
+  const handleCheckboxChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, checked } = e.target;
+    setPrefs(prev => ({ ...prev, [name]: checked }));
+  };
+
   const handleMultiSelectChange = (field: keyof SearchPreferences) => (selected: string[]) => {
     setPrefs(prev => ({ ...prev, [field]: selected }));
   };
 
   // Logic to highlight text
-  const highlightSelection = (searchId: string) => {
-    const selection = window.getSelection();
-    if (!selection || selection.rangeCount === 0) return;
-
-    const range = selection.getRangeAt(0);
-    const span = document.createElement('span');
-    span.className = "bg-yellow-200 border-b-2 border-yellow-400 cursor-pointer hover:bg-yellow-300 transition-colors rounded-sm px-0.5";
-    span.dataset.searchId = searchId;
-    span.title = "Click to view references";
+  const highlightRange = (range: Range, searchId: string) => {
+    const span = createHighlightSpan(searchId);
     
     try {
         const content = range.extractContents();
         span.appendChild(content);
         range.insertNode(span);
-        selection.removeAllRanges();
+        window.getSelection()?.removeAllRanges();
     } catch (e) {
         console.error("Could not highlight text:", e);
     }
@@ -95,6 +350,10 @@ const App: React.FC = () => {
 
   const handleEditorClick = (e: React.MouseEvent<HTMLDivElement>) => {
     const target = e.target as HTMLElement;
+    const suggestionSpan = target.closest('span[data-suggestion-id]') as HTMLElement;
+    if (suggestionSpan && suggestionSpan.dataset.suggestionId) {
+      setActiveSuggestionId(suggestionSpan.dataset.suggestionId);
+    }
     // Handle click on highlight
     const highlightSpan = target.closest('span[data-search-id]') as HTMLElement;
     if (highlightSpan && highlightSpan.dataset.searchId) {
@@ -109,34 +368,77 @@ const App: React.FC = () => {
     document.execCommand('insertText', false, text);
   };
 
-  // Re-usable fetch helper to support "Fetch More"
+  // Queued searches move to 'loading' when the scheduler starts them
+  const markRunning = (searchId: string) => {
+    setSearchHistory(prev => prev[searchId]?.status === 'queued'
+      ? { ...prev, [searchId]: { ...prev[searchId], status: 'loading' } }
+      : prev);
+  };
+
+  // Re-usable fetch helper to support "Fetch More". Every call goes through the search queue.
   const performFetch = async (
+    searchId: string,
     context: SelectionContext, 
     currentPrefs: SearchPreferences, 
-    existingTitles: string[] = []
-  ): Promise<Reference[]> => {
+    existingTitles: string[] = [],
+    {
+      bypassCache = false,
+      onStart,
+      searchProfile = profile,
+      seed,
+      // Only removals at this highlight are described to the AI
+      feedback = disapprovalHistory.filter(h => h.searchId === searchId)
+    }: { bypassCache?: boolean; onStart?: () => void; searchProfile?: PreferenceProfile; seed?: Reference; feedback?: DisapprovalHistoryItem[] } = {}
+  ): Promise<FetchResult> => {
     // Add existing titles to excluded list to avoid duplicates
     const searchPrefs = {
       ...currentPrefs,
       excludeTitles: existingTitles
     };
-    return await fetchReferences(context, searchPrefs, disapprovalHistory, customApiKey);
+
+    return searchQueue.enqueue(searchId, async () => {
+      const controller = new AbortController();
+      searchControllers.current.get(searchId)?.abort();
+      searchControllers.current.set(searchId, controller);
+
+      const settings = providerSettings[getProvider(currentPrefs.provider).id];
+      const options = {
+        apiKey: settings.apiKey,
+        baseUrl: settings.baseUrl || undefined,
+        metadataUrl,
+        bypassCache,
+        signal: controller.signal,
+        timeoutMs: requestTimeoutSec * 1000,
+        profile: isEmptyProfile(searchProfile) ? undefined : searchProfile,
+        seed
+      };
+      try {
+        if (existingTitles.length > 0) {
+          return await fetchMoreReferences(context, searchPrefs, feedback, options);
+        }
+        return await fetchReferences(context, searchPrefs, feedback, options);
+      } finally {
+        if (searchControllers.current.get(searchId) === controller) searchControllers.current.delete(searchId);
+      }
+    }, onStart);
   };
 
   const sortReferencesByPriority = (refs: Reference[], priority: SortPriority): Reference[] => {
     const sorted = [...refs];
     if (priority === SortPriority.NEWEST) {
-       return sorted.sort((a, b) => {
+       sorted.sort((a, b) => {
           const valA = parseInt(a.year.replace(/\D/g, '')) || 0;
           const valB = parseInt(b.year.replace(/\D/g, '')) || 0;
           return valB - valA;
        });
-    }
-    if (priority === SortPriority.MOST_CITED) {
-       return sorted.sort((a, b) => (b.citationCount || 0) - (a.citationCount || 0));
+    } else if (priority === SortPriority.MOST_CITED) {
+       sorted.sort((a, b) => (b.citationCount || 0) - (a.citationCount || 0));
     }
     // For HIGH_IMPACT, we rely on the order returned by the AI as we don't have Impact Factor data
-    return sorted;
+
+    // References the registry could not confirm go last so they are only shown when nothing better exists
+    const isUnresolved = (ref: Reference) => ref.verification?.status === VerificationStatus.UNRESOLVED;
+    return [...sorted.filter(ref => !isUnresolved(ref)), ...sorted.filter(isUnresolved)];
   };
 
   const handleSearch = () => {
@@ -151,55 +453,67 @@ const App: React.FC = () => {
         return;
     }
 
-    const highlightedText = selection.toString().trim();
-    if (!highlightedText) return;
+    startSearch(selection.getRangeAt(0));
+  };
+
+  // The claim plus what the AI needs to read it in context
+  const buildSelectionContext = (range: Range): SelectionContext | null => {
+    if (!editorRef.current) return null;
+
+    const highlightedText = range.toString().trim();
+    if (!highlightedText) return null;
 
-    const fullText = editorRef.current.innerText;
-    const range = selection.getRangeAt(0);
     const preRange = document.createRange();
     preRange.selectNodeContents(editorRef.current);
     preRange.setEnd(range.startContainer, range.startOffset);
-    const precedingContext = preRange.toString().slice(-300);
 
-    const context: SelectionContext = {
-      fullText,
+    return {
+      fullText: editorRef.current.innerText,
       highlightedText,
-      precedingContext
+      precedingContext: preRange.toString().slice(-300)
     };
+  };
 
-    const searchId = `search-${Date.now()}`;
+  // Queue a search for an existing entry and store its outcome.
+  // The library is ranked first, locally, so papers we already have show up right away.
+  const runSearch = (searchId: string, context: SelectionContext, bypassCache = false) => {
+    const searchPrefs = { ...prefs };
+    const libraryMatches = rankLibraryMatches(context, library);
+    const matchedEntries = library.filter(entry => libraryMatches.some(match => match.entryId === entry.id));
 
-    // 1. Initialize Search Entry in 'loading' state
     setSearchHistory(prev => ({
         ...prev,
         [searchId]: {
             id: searchId,
-            status: 'loading',
             visible: [],
             pool: [],
-            queryPrefs: { ...prefs },
-            context
+            ...prev[searchId],
+            context,
+            status: 'queued',
+            errorMessage: undefined,
+            libraryMatches,
+            queryPrefs: searchPrefs // Always the current selection
         }
     }));
 
-    // 2. Highlight Text in DOM
-    highlightSelection(searchId);
-    
-    // 3. Set as active immediately
-    setActiveSearchId(searchId);
-    setUiError(null);
-
-    // 4. Execute Background Fetch
-    performFetch(context, prefs)
-        .then(allResults => {
+    performFetch(searchId, context, searchPrefs, [], { bypassCache, onStart: () => markRunning(searchId) })
+        .then(({ references: allResults, rejected, cachedAt, counterEvidence, counterError, grounding }) => {
             setSearchHistory(prev => {
                 // Safety check if entry still exists (user might have deleted it while loading)
                 if (!prev[searchId]) return prev;
 
-                const sortedResults = sortReferencesByPriority(allResults, prefs.priority);
+                // Papers already listed under "From your library" are not repeated as web results
+                const newResults = allResults.filter(ref =>
+                    !findLibraryEntry(matchedEntries, ref) && meetsSupportFilter(ref.support, searchPrefs.supportedOnly)
+                );
+                const sortedResults = sortReferencesByPriority(newResults, searchPrefs.priority);
 
-                const visible = sortedResults.slice(0, prefs.numReferences);
-                const pool = sortedResults.slice(prefs.numReferences);
+                // Kept results survive a retry; new results fill the remaining slots
+                const kept = prev[searchId].visible.filter(ref => isApproved(prev[searchId], ref));
+                const ranked = [...kept, ...excludeKnown(sortedResults, kept)];
+                const slots = Math.max(searchPrefs.numReferences, kept.length);
+                const visible = ranked.slice(0, slots);
+                const pool = ranked.slice(slots);
 
                 return {
                     ...prev,
@@ -207,7 +521,12 @@ const App: React.FC = () => {
                         ...prev[searchId],
                         status: 'success',
                         visible,
-                        pool
+                        pool,
+                        rejected,
+                        cachedAt,
+                        counterEvidence,
+                        counterError,
+                        grounding
                     }
                 };
             });
@@ -220,83 +539,147 @@ const App: React.FC = () => {
                     [searchId]: {
                         ...prev[searchId],
                         status: 'error',
-                        errorMessage: err instanceof Error ? err.message : "An unexpected error occurred."
+                        errorMessage: describeSearchError(err)
                     }
                 };
             });
         });
   };
 
-  const handleRetry = () => {
-    if (!activeSearchId || !searchHistory[activeSearchId]) return;
+  // Highlights `range` and starts a search for it; shared by manual selections and accepted suggestions
+  const startSearch = (range: Range): string | null => {
+    if (!editorRef.current) return null;
 
-    const { context } = searchHistory[activeSearchId];
-    const searchId = activeSearchId;
+    // Claims imported with a citation already have their reference
+    const existingCitation = findExistingCitation(editorRef.current, range);
+    if (existingCitation) {
+        setUiError(`This text is already cited (${existingCitation.textContent}). Remove the citation marker to search for new references.`);
+        return null;
+    }
 
-    // Update status to loading
-    setSearchHistory(prev => ({
-        ...prev,
-        [searchId]: {
-            ...prev[searchId],
-            status: 'loading',
-            errorMessage: undefined,
-            queryPrefs: { ...prefs } // Update prefs to current selection
-        }
-    }));
+    const context = buildSelectionContext(range);
+    if (!context) return null;
 
-    // Execute Fetch
-    performFetch(context, prefs)
-        .then(allResults => {
-            setSearchHistory(prev => {
-                if (!prev[searchId]) return prev;
+    const searchId = createSearchId();
+    highlightRange(range, searchId);
+    setActiveSearchId(searchId);
+    setUiError(null);
 
-                const sortedResults = sortReferencesByPriority(allResults, prefs.priority);
+    runSearch(searchId, context);
+    return searchId;
+  };
 
-                const visible = sortedResults.slice(0, prefs.numReferences);
-                const pool = sortedResults.slice(prefs.numReferences);
+  // Propose uncited claims as dashed marks in the editor
+  const handleScan = () => {
+    if (!editorRef.current) return;
+    const snapshot = captureEditor(editorRef.current);
+    const scanId = Date.now();
+    const found = detectClaims(snapshot).map((claim, i) => ({ ...claim, id: `claim-${scanId}-${i}` }));
+
+    markSuggestions(editorRef.current, snapshot, found);
+    setSuggestions(found.map(({ id, text, reason }) => ({ id, text, reason })));
+    setActiveSuggestionId(null);
+    setUiError(found.length === 0 ? "No uncited claims found. Every factual sentence already has a citation or highlight." : null);
+  };
 
-                return {
-                    ...prev,
-                    [searchId]: {
-                        ...prev[searchId],
-                        status: 'success',
-                        visible,
-                        pool
-                    }
-                };
-            });
-        })
-        .catch(err => {
-            setSearchHistory(prev => {
-                if (!prev[searchId]) return prev;
-                return {
-                    ...prev,
-                    [searchId]: {
-                        ...prev[searchId],
-                        status: 'error',
-                        errorMessage: err instanceof Error ? err.message : "Retry failed"
-                    }
-                };
-            });
-        });
+  const handleSelectSuggestion = (id: string) => {
+    setActiveSuggestionId(id);
+    editorRef.current?.querySelector(`span[data-suggestion-id="${id}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const handleAcceptSuggestion = (id: string): string | null => {
+    if (!editorRef.current) return null;
+    const range = removeSuggestion(editorRef.current, id);
+    setSuggestions(prev => prev.filter(s => s.id !== id));
+    return range ? startSearch(range) : null;
+  };
+
+  const handleDismissSuggestion = (id: string) => {
+    if (!editorRef.current) return;
+    removeSuggestion(editorRef.current, id);
+    editorRef.current.normalize();
+    setSuggestions(prev => prev.filter(s => s.id !== id));
+  };
+
+  // Search every claim still without references: failed or interrupted searches, highlights
+  // that lost their search, and scan suggestions. Failures don't stop the rest of the batch.
+  const handleCiteAll = () => {
+    if (!editorRef.current) return;
+    const ids: string[] = [];
+
+    // Existing highlights first, so the ones created from suggestions below aren't picked up twice
+    editorRef.current.querySelectorAll<HTMLElement>('span[data-search-id]').forEach(span => {
+      const searchId = span.dataset.searchId;
+      if (!searchId) return;
+      const data = searchHistory[searchId];
+      if (data && data.status !== 'error') return;
+
+      const range = document.createRange();
+      range.selectNodeContents(span);
+      const context = data?.context || buildSelectionContext(range);
+      if (context) {
+        runSearch(searchId, context);
+        ids.push(searchId);
+      }
+    });
+
+    suggestions.forEach(suggestion => {
+      const searchId = handleAcceptSuggestion(suggestion.id);
+      if (searchId) ids.push(searchId);
+    });
+
+    if (ids.length === 0) {
+      setUiError("Nothing left to cite: every highlight already has a search. Scan the manuscript to find uncited claims.");
+      return;
+    }
+    setBatchIds(ids);
+    setUiError(null);
+  };
+
+  // Re-runs only the batch's failed searches; pending scan suggestions stay suggestions
+  const handleRetryFailedBatch = () => {
+    batchIds?.forEach(id => {
+      const data = searchHistory[id];
+      if (data?.status === 'error') runSearch(id, data.context);
+    });
+  };
+
+  const handleStopBatch = () => {
+    batchIds?.forEach(id => {
+      if (!searchQueue.cancel(id)) searchControllers.current.get(id)?.abort();
+    });
+  };
+
+  const handleSelectSearch = (id: string) => {
+    setActiveSearchId(id);
+    editorRef.current?.querySelector(`span[data-search-id="${id}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const handleRetry = () => {
+    if (!activeSearchId || !searchHistory[activeSearchId]) return;
+    runSearch(activeSearchId, searchHistory[activeSearchId].context, bypassCacheOnRetry);
+  };
+
+  // A waiting search leaves the queue, a running one is aborted; either way its error handler marks it cancelled
+  const handleCancel = () => {
+    if (!activeSearchId) return;
+    if (!searchQueue.cancel(activeSearchId)) searchControllers.current.get(activeSearchId)?.abort();
+  };
+
+  const handleRunNext = () => {
+    if (activeSearchId) searchQueue.prioritize(activeSearchId);
   };
 
   const handleClear = () => {
     if (!activeSearchId) return;
 
+    // Stop any request still waiting or running for this search
+    searchQueue.cancel(activeSearchId);
+    searchControllers.current.get(activeSearchId)?.abort();
+
     // 1. Remove highlight from DOM
     if (editorRef.current) {
-        const highlightSpan = editorRef.current.querySelector(`span[data-search-id="${activeSearchId}"]`);
-        if (highlightSpan) {
-            const parent = highlightSpan.parentNode;
-            if (parent) {
-                while (highlightSpan.firstChild) {
-                    parent.insertBefore(highlightSpan.firstChild, highlightSpan);
-                }
-                parent.removeChild(highlightSpan);
-                parent.normalize();
-            }
-        }
+        removeHighlight(editorRef.current, activeSearchId);
     }
 
     // 2. Remove from state
@@ -310,7 +693,27 @@ const App: React.FC = () => {
     setUiError(null);
   };
 
-  const handleDisapprove = async (indexToRemove: number, reason: DisapprovalReason) => {
+  // Counter-evidence is not refilled; removing a paper only records the feedback
+  const handleDismissCounter = (index: number, reason: DisapprovalReason, note?: string) => {
+    const searchId = activeSearchId;
+    const removedRef = searchId ? searchHistory[searchId]?.counterEvidence?.[index] : undefined;
+    if (!searchId || !removedRef) return;
+
+    const item: DisapprovalHistoryItem = { reference: removedRef, reason, note: note && cleanReason(note), searchId, timestamp: Date.now() };
+    setDisapprovalHistory(prev => [...prev, item]);
+    setProfile(prev => learnFromFeedback(prev, item, searchHistory[searchId].context));
+    const entry = findLibraryEntry(library, removedRef);
+    if (entry) setPinned(searchId, entry.id, false);
+
+    setSearchHistory(prev => {
+      const data = prev[searchId];
+      if (!data?.counterEvidence) return prev;
+      return { ...prev, [searchId]: { ...data, counterEvidence: data.counterEvidence.filter(ref => ref !== removedRef) } };
+    });
+  };
+
+  // `note` carries a free-text or custom reason; it is passed to the AI when this highlight is refilled
+  const handleDisapprove = async (indexToRemove: number, reason: DisapprovalReason, note?: string) => {
     if (!activeSearchId) return;
 
     const currentData = searchHistory[activeSearchId];
@@ -318,25 +721,31 @@ const App: React.FC = () => {
 
     const { visible, pool, queryPrefs, context } = currentData;
     
+    // Kept results are never replaced
+    if (visible[indexToRemove] && isApproved(currentData, visible[indexToRemove])) return;
+
     // 1. Remove item from visible
     const newVisible = [...visible];
     const removedRef = newVisible[indexToRemove];
     newVisible.splice(indexToRemove, 1);
 
     // LOG DISAPPROVAL
+    let nextProfile = profile;
+    let searchFeedback = disapprovalHistory.filter(h => h.searchId === activeSearchId);
     if (removedRef) {
-        setDisapprovalHistory(prev => [...prev, {
-            reference: removedRef,
-            reason: reason,
-            timestamp: Date.now()
-        }]);
+        const item: DisapprovalHistoryItem = { reference: removedRef, reason, note: note && cleanReason(note), searchId: activeSearchId, timestamp: Date.now() };
+        setDisapprovalHistory(prev => [...prev, item]);
+        searchFeedback = [...searchFeedback, item];
+        nextProfile = learnFromFeedback(profile, item, context);
+        setProfile(nextProfile);
+
+        // A removed result is no longer cited here, even if it was accepted
+        const entry = findLibraryEntry(library, removedRef);
+        if (entry) setPinned(activeSearchId, entry.id, false);
     }
 
-    let newPool = [...pool];
-    if (reason === DisapprovalReason.UNWANTED_SOURCE && removedRef) {
-        const unwantedSource = removedRef.publication.toLowerCase().trim();
-        newPool = newPool.filter(ref => ref.publication.toLowerCase().trim() !== unwantedSource);
-    }
+    // What the feedback just taught applies to the waiting results too (e.g. a blocked venue)
+    const newPool = applyProfile(pool, nextProfile);
 
     // Re-rank for replacement ONLY (Does not re-sort the entire list)
     if (newPool.length > 0) {
@@ -372,19 +781,26 @@ const App: React.FC = () => {
 
        try {
            const existingTitles = [...newVisible, ...pool].map(r => r.title);
-           const moreResults = await performFetch(context, queryPrefs, existingTitles);
+           const { references: moreResults, rejected, grounding } = await performFetch(activeSearchId, context, queryPrefs, existingTitles, { searchProfile: nextProfile, feedback: searchFeedback });
            
            setSearchHistory(prev => {
                if (!prev[activeSearchId]) return prev;
                
-               const current = prev[activeSearchId];
+               const current = {
+                   ...prev[activeSearchId],
+                   rejected: [...(prev[activeSearchId].rejected || []), ...rejected],
+                   grounding: mergeGrounding(prev[activeSearchId].grounding, grounding)
+               };
                let updatedVisible = [...current.visible];
+               // The model may return the dismissed paper again, or another version of one already listed
+               const fresh = excludeKnown(moreResults, [...current.visible, ...current.pool, removedRef])
+                   .filter(ref => meetsSupportFilter(ref.support, queryPrefs.supportedOnly));
                
                // If we still need to fill a visible slot
-               if (updatedVisible.length < queryPrefs.numReferences && moreResults.length > 0) {
+               if (updatedVisible.length < queryPrefs.numReferences && fresh.length > 0) {
                   const needed = queryPrefs.numReferences - updatedVisible.length;
-                  const toAdd = moreResults.slice(0, needed);
-                  const toPool = moreResults.slice(needed);
+                  const toAdd = fresh.slice(0, needed);
+                  const toPool = fresh.slice(needed);
                   updatedVisible = [...updatedVisible, ...toAdd];
                   
                   return {
@@ -401,7 +817,7 @@ const App: React.FC = () => {
                     ...prev,
                     [activeSearchId]: {
                         ...current,
-                        pool: moreResults,
+                        pool: fresh,
                         isRefilling: false
                     }
                   };
@@ -410,6 +826,8 @@ const App: React.FC = () => {
 
       } catch (e) {
         console.error("Failed to refill references", e);
+        // Say why the card was not replaced, unless the user stopped it
+        if (classifyError(e).kind !== 'cancelled') setUiError(describeSearchError(e));
         setSearchHistory(prev => {
              if (!prev[activeSearchId]) return prev;
              return {
@@ -421,81 +839,236 @@ const App: React.FC = () => {
     }
   };
 
-  const handleExport = () => {
-    if (!editorRef.current) return;
+  // Pin or unpin a library entry at a highlight
+  const setPinned = (searchId: string, entryId: string, pinned: boolean) => {
+    setSearchHistory(prev => {
+      const data = prev[searchId];
+      if (!data) return prev;
+      const current = data.pinned || [];
+      if (current.includes(entryId) === pinned) return prev;
+      const next = pinned ? [...current, entryId] : current.filter(id => id !== entryId);
+      return { ...prev, [searchId]: { ...data, pinned: next } };
+    });
+  };
 
-    let exportContent = "";
-    const seenRefs = new Map<string, number>();
-    const formattedRefs: string[] = [];
+  // Accepting adds the result to the library (once) and cites it at the active highlight.
+  // Counter-evidence is accepted without `keep`: citing it says nothing about what to search for.
+  const handleAccept = (ref: Reference, keep = true) => {
+    if (!activeSearchId) return;
+    let entry = findLibraryEntry(library, ref);
+    if (!entry) {
+      entry = createLibraryEntry(ref);
+      const added = entry;
+      setLibrary(prev => [...prev, added]);
+    }
+    const accepting = !searchHistory[activeSearchId]?.pinned?.includes(entry.id);
+    setPinned(activeSearchId, entry.id, accepting);
+    // A paper worth citing is also worth keeping
+    if (accepting && keep) setApproved(activeSearchId, ref, true);
+  };
 
-    const processNode = (node: Node) => {
-      if (node.nodeType === Node.TEXT_NODE) {
-        exportContent += node.textContent;
-      } else if (node.nodeType === Node.ELEMENT_NODE) {
-        const el = node as HTMLElement;
+  // Keep (approve) a result: it is not replaced, and it becomes a positive example for later searches
+  const setApproved = (searchId: string, ref: Reference, approved: boolean) => {
+    const key = identityKey(ref);
+    setSearchHistory(prev => {
+      const data = prev[searchId];
+      if (!data) return prev;
+      const current = data.approved || [];
+      if (current.includes(key) === approved) return prev;
+      const next = approved ? [...current, key] : current.filter(k => k !== key);
+      return { ...prev, [searchId]: { ...data, approved: next } };
+    });
+    // Favorites stay examples even when released here
+    setProfile(prev => (approved ? likePaper(prev, ref) : findLikedPaper(prev, ref)?.favorite ? prev : unlikePaper(prev, ref)));
+  };
 
-        if (el.tagName === 'BR') {
-          exportContent += '\n';
-        } else if (el.tagName === 'SPAN' && el.dataset.searchId) {
-          exportContent += el.textContent;
-          
-          const searchId = el.dataset.searchId;
-          const data = searchHistory[searchId];
-          
-          if (data && data.status === 'success' && data.visible.length > 0) {
-            const indices: number[] = [];
-            data.visible.forEach(ref => {
-              const key = `${ref.title.trim().toLowerCase()}-${ref.year}`;
-              let id;
-              if (seenRefs.has(key)) {
-                id = seenRefs.get(key)!;
-              } else {
-                id = formattedRefs.length + 1;
-                seenRefs.set(key, id);
-                formattedRefs.push(`[${id}] ${ref.title}. ${ref.publication}. ${ref.year}. Available at: ${ref.url}`);
-              }
-              indices.push(id);
-            });
-            if (indices.length > 0) {
-                exportContent += ` [${indices.join(', ')}]`;
-            }
-          }
-        } else {
-          el.childNodes.forEach(child => processNode(child));
-          const isBlock = ['DIV', 'P', 'H1', 'H2', 'H3', 'LI'].includes(el.tagName);
-          if (isBlock) {
-             exportContent += '\n';
+  const handleApprove = (ref: Reference) => {
+    if (!activeSearchId) return;
+    setApproved(activeSearchId, ref, !isApproved(searchHistory[activeSearchId], ref));
+  };
+
+  const handleFavorite = (ref: Reference) => {
+    setProfile(prev => (findLikedPaper(prev, ref)?.favorite ? unlikePaper(prev, ref, true) : likePaper(prev, ref, true)));
+  };
+
+  // Keeps the chosen result and replaces the other, unkept ones with papers like it.
+  // Replaced results go to the back of the pool, so they can still come back.
+  const handleMoreLikeThis = async (index: number) => {
+    const searchId = activeSearchId;
+    const data = searchId ? searchHistory[searchId] : undefined;
+    const seed = data?.visible[index];
+    if (!searchId || !data || !seed || data.isRefilling) return;
+
+    setApproved(searchId, seed, true);
+    setSearchHistory(prev => ({ ...prev, [searchId]: { ...prev[searchId], isRefilling: true } }));
+
+    try {
+      const existingTitles = [...data.visible, ...data.pool].map(r => r.title);
+      const { references, rejected, grounding } = await performFetch(searchId, data.context, data.queryPrefs, existingTitles, { seed });
+
+      setSearchHistory(prev => {
+        const current = prev[searchId];
+        if (!current) return prev;
+        const fresh = excludeKnown(references, [...current.visible, ...current.pool])
+          .filter(ref => meetsSupportFilter(ref.support, current.queryPrefs.supportedOnly));
+        const replaced: Reference[] = [];
+        const visible = current.visible.map(ref => {
+          if (ref === seed || isApproved(current, ref) || fresh.length === 0) return ref;
+          replaced.push(ref);
+          return fresh.shift()!;
+        });
+        return {
+          ...prev,
+          [searchId]: {
+            ...current,
+            visible,
+            pool: [...fresh, ...current.pool, ...replaced],
+            rejected: [...(current.rejected || []), ...rejected],
+            grounding: mergeGrounding(current.grounding, grounding),
+            isRefilling: false
           }
-        }
-      }
-    };
+        };
+      });
+      if (references.length === 0) setUiError("No further papers like this one were found.");
+    } catch (e) {
+      console.error("Failed to find similar references", e);
+      if (classifyError(e).kind !== 'cancelled') setUiError(describeSearchError(e));
+      setSearchHistory(prev => prev[searchId] ? { ...prev, [searchId]: { ...prev[searchId], isRefilling: false } } : prev);
+    }
+  };
 
-    editorRef.current.childNodes.forEach(child => processNode(child));
+  const handleUpdateLibraryEntry = (updated: LibraryEntry) => {
+    setLibrary(prev => prev.map(entry => (entry.id === updated.id ? updated : entry)));
+  };
 
-    const finalOutput = `${exportContent.trim()}\n\nReferences:\n${formattedRefs.join('\n')}`;
+  const handleDeleteLibraryEntry = (id: string) => {
+    setLibrary(prev => prev.filter(entry => entry.id !== id));
+    setSearchHistory(prev => {
+      const next = { ...prev };
+      Object.values(prev).forEach((data: SearchResultData) => {
+        if (data.pinned?.includes(id)) next[data.id] = { ...data, pinned: data.pinned.filter(p => p !== id) };
+      });
+      return next;
+    });
+  };
 
-    const blob = new Blob([finalOutput], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'manuscript_with_references.txt';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const handleImportLibrary = async (file: File): Promise<string> => {
+    const { items, skipped } = await importLibraryFile(file);
+    if (items.length === 0) {
+      throw new Error(`No references with a title were found in ${file.name}.`);
+    }
+    const result = importIntoLibrary(library, items);
+    setLibrary(result.library);
+    return [
+      `Imported ${result.added} ${result.added === 1 ? 'reference' : 'references'} from ${file.name}.`,
+      result.duplicates > 0 ? `${result.duplicates} already in your library.` : '',
+      skipped > 0 ? `${skipped} skipped without a title.` : '',
+    ].filter(Boolean).join(' ');
+  };
+
+  const handleExport = (format: string) => {
+    if (!editorRef.current) return;
+
+    const cited = collectCitedManuscript(editorRef.current, searchHistory, library, { supportedOnly: exportSupportedOnly });
+    const { references } = cited;
+
+    switch (format) {
+      case 'project': {
+        const session = buildSessionData();
+        if (!session) return;
+        const slug = session.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'manuscript';
+        // Include the library entries pinned in this manuscript, so they open elsewhere
+        const pinnedIds = new Set(Object.values(session.searchHistory).flatMap(data => data.pinned || []));
+        const projectLibrary = library.filter(entry => pinnedIds.has(entry.id));
+        downloadFile(serializeProject({ ...session, library: projectLibrary }), `${slug}${PROJECT_FILE_EXTENSION}`, 'application/json');
+        return;
+      }
+      case 'latex': {
+        const bundle = createLatexBundle(cited, library);
+        downloadFile(bundle.zip, 'manuscript_latex.zip', 'application/zip');
+        if (bundle.missingKeys.length > 0) {
+          setUiError(`The LaTeX export is incomplete: no bibliography entry was found for ${bundle.missingKeys.join(', ')}. They have placeholders in imported.bib; replace them with the original entries, or import your .bib library first.`);
+        }
+        return;
+      }
+      case 'bibtex':
+        downloadFile(toBibTeX(references), 'references.bib', 'application/x-bibtex');
+        return;
+      case 'ris':
+        downloadFile(toRIS(references), 'references.ris', 'application/x-research-info-systems');
+        return;
+      case 'csl-json':
+        downloadFile(toCslJson(references), 'references.json', 'application/vnd.citationstyles.csl+json');
+        return;
+    }
+
+    const style = getCitationStyle(citationStyle);
+    if (format === 'docx') {
+      downloadFile(createDocx(cited, style), 'manuscript_with_references.docx', DOCX_MIME_TYPE);
+    } else if (format === 'html') {
+      downloadFile(renderManuscriptHtml(cited, style), 'manuscript_with_references.html', 'text/html');
+    } else {
+      downloadFile(renderManuscriptText(cited, style), 'manuscript_with_references.txt', 'text/plain');
+    }
   };
 
   const activeData = activeSearchId ? searchHistory[activeSearchId] : null;
   // Derived state for the control panel
-  const isCurrentLoading = activeData?.status === 'loading';
+  const isCurrentQueued = activeData?.status === 'queued';
+  const isCurrentLoading = activeData?.status === 'loading' || isCurrentQueued;
+  const queuePosition = activeSearchId ? queuedIds.indexOf(activeSearchId) + 1 : 0;
   const currentReferences = activeData?.visible || [];
   const currentError = activeData?.errorMessage;
 
-  const isCustomKeyUsed = !!customApiKey && customApiKey.trim().length > 0;
+  const activeProvider = getProvider(prefs.provider);
+  const activeSettings = providerSettings[activeProvider.id];
+  const updateActiveSettings = (changes: Partial<ProviderSettings>) =>
+    setProviderSettings(prev => ({ ...prev, [activeProvider.id]: { ...prev[activeProvider.id], ...changes } }));
+  const isCustomKeyUsed = activeSettings.apiKey.trim().length > 0;
+
+  const activePinned = activeData?.pinned || [];
+  const pinnedEntries = activePinned
+    .map(id => library.find(entry => entry.id === id))
+    .filter((entry): entry is LibraryEntry => !!entry);
+  const libraryMatchItems = (activeData?.libraryMatches || [])
+    .map(match => ({ match, entry: library.find(entry => entry.id === match.entryId) }))
+    .filter((item): item is { match: LibraryMatch; entry: LibraryEntry } => !!item.entry);
+  const pinCounts: Record<string, number> = {};
+  Object.values(searchHistory).forEach((data: SearchResultData) => {
+    data.pinned?.forEach(id => { pinCounts[id] = (pinCounts[id] || 0) + 1; });
+  });
+
+  // Progress of the current batch, read from the searches themselves (cleared ones drop out)
+  const batchItems: BatchItem[] = (batchIds || [])
+    .filter(id => searchHistory[id])
+    .map(id => {
+      const data = searchHistory[id];
+      const state = data.status === 'error' ? 'failed'
+        : data.status === 'success' ? (data.visible.length > 0 ? 'cited' : 'empty')
+        : 'pending';
+      return { id, label: data.context.highlightedText, state, error: data.errorMessage };
+    });
 
   return (
     <div className="flex h-screen w-full flex-col lg:flex-row bg-slate-100 overflow-hidden">
       {isHelpOpen && <HelpModal onClose={() => setIsHelpOpen(false)} />}
+      {isCacheOpen && <CacheInspector onClose={() => setIsCacheOpen(false)} />}
+      {isProfileOpen && (
+        <PreferenceProfilePanel profile={profile} onChange={setProfile} onClose={() => setIsProfileOpen(false)} />
+      )}
+      {isLibraryOpen && (
+        <LibraryPanel
+          entries={library}
+          pinCounts={pinCounts}
+          activeClaim={activeData?.context.highlightedText || null}
+          activePinned={activePinned}
+          onTogglePin={(id) => activeSearchId && setPinned(activeSearchId, id, !activePinned.includes(id))}
+          onUpdate={handleUpdateLibraryEntry}
+          onDelete={handleDeleteLibraryEntry}
+          onImport={handleImportLibrary}
+          onClose={() => setIsLibraryOpen(false)}
+        />
+      )}
       
       {/* --- PANEL 1: CONFIGURATION (Left) --- */}
       <div className="w-full lg:w-80 bg-white border-r border-slate-200 flex flex-col z-20 shadow-[4px_0_24px_rgba(0,0,0,0.02)] h-[40vh] lg:h-full flex-shrink-0">
@@ -517,6 +1090,28 @@ const App: React.FC = () => {
               </svg>
               Find References for Selected Text
           </button>
+          <div className="flex gap-2 mt-2">
+            <button
+                onClick={handleScan}
+                className="flex-1 py-2 px-2 rounded-md text-xs font-semibold text-indigo-600 border border-indigo-200 bg-white hover:bg-indigo-50 transition-all flex justify-center items-center gap-1.5"
+                title="Find sentences that state facts or prior work without a citation"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                </svg>
+                Scan Claims
+            </button>
+            <button
+                onClick={handleCiteAll}
+                className="flex-1 py-2 px-2 rounded-md text-xs font-semibold text-indigo-600 border border-indigo-200 bg-white hover:bg-indigo-50 transition-all flex justify-center items-center gap-1.5"
+                title="Search references for every suggestion and every highlight without results"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                </svg>
+                Cite Everything
+            </button>
+          </div>
         </div>
 
         {/* Scrollable Settings */}
@@ -526,39 +1121,143 @@ const App: React.FC = () => {
            <section className="space-y-4">
              <div className="flex items-center justify-between">
                 <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">System</h3>
-                <span className={`text-[10px] px-1.5 py-0.5 rounded font-medium ${isCustomKeyUsed ? 'bg-amber-100 text-amber-700' : 'bg-slate-100 text-slate-500'}`}>
-                    {isCustomKeyUsed ? 'Using: Custom Key' : 'Using: Default Quota'}
-                </span>
+                {activeProvider.connection?.keyPlaceholder && (
+                  <span className={`text-[10px] px-1.5 py-0.5 rounded font-medium ${isCustomKeyUsed ? 'bg-amber-100 text-amber-700' : 'bg-slate-100 text-slate-500'}`}>
+                      {isCustomKeyUsed ? 'Using: Custom Key' : activeProvider.id === ProviderId.GEMINI ? 'Using: Default Quota' : 'Using: No Key'}
+                  </span>
+                )}
              </div>
              
              <div>
-                <label className="block text-xs font-medium text-slate-600 mb-1.5">API Key (Optional)</label>
+                <label className="block text-xs font-medium text-slate-600 mb-1.5">Reference Source</label>
+                <div className="relative">
+                    <select
+                      name="provider"
+                      value={prefs.provider}
+                      onChange={handleInputChange}
+                      className="w-full p-2 text-sm border border-slate-300 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none bg-white appearance-none"
+                    >
+                      {listProviders().map(p => (
+                        <option key={p.id} value={p.id}>{p.name}</option>
+                      ))}
+                    </select>
+                    <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-slate-500">
+                      <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" /></svg>
+                    </div>
+                </div>
+             </div>
+
+             {activeProvider.connection?.defaultBaseUrl && (
+               <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1.5">Endpoint URL</label>
+                  <input 
+                    type="text" 
+                    value={activeSettings.baseUrl}
+                    onChange={(e) => updateActiveSettings({ baseUrl: e.target.value })}
+                    placeholder={activeProvider.connection.defaultBaseUrl}
+                    className="w-full p-2 text-sm border border-slate-300 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none transition-shadow"
+                  />
+                  <p className="text-[10px] text-slate-400 mt-1">Base URL of an OpenAI-compatible API, ending in /v1. This model has no web search; every reference is checked against the DOI registry.</p>
+               </div>
+             )}
+
+             {activeProvider.connection?.keyPlaceholder && (
+               <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1.5">API Key (Optional)</label>
+                  <input 
+                    type="password" 
+                    value={activeSettings.apiKey}
+                    onChange={(e) => updateActiveSettings({ apiKey: e.target.value })}
+                    placeholder={activeProvider.connection.keyPlaceholder}
+                    className="w-full p-2 text-sm border border-slate-300 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none transition-shadow"
+                  />
+               </div>
+             )}
+
+             <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1.5">Metadata Resolver URL</label>
                 <input 
-                  type="password" 
-                  value={customApiKey}
-                  onChange={(e) => setCustomApiKey(e.target.value)}
-                  placeholder="Enter your Gemini API key"
+                  type="text" 
+                  value={metadataUrl}
+                  onChange={(e) => setMetadataUrl(e.target.value)}
+                  placeholder={DEFAULT_METADATA_URL}
                   className="w-full p-2 text-sm border border-slate-300 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none transition-shadow"
                 />
+                <p className="text-[10px] text-slate-400 mt-1">Crossref-compatible API used to verify DOIs and titles.</p>
              </div>
 
+             <ModelSelector
+               provider={activeProvider}
+               settings={activeSettings}
+               value={prefs.model}
+               onChange={model => setPrefs(prev => ({ ...prev, model }))}
+             />
+
              <div>
-                <label className="block text-xs font-medium text-slate-600 mb-1.5">AI Model</label>
+                <label className="block text-xs font-medium text-slate-600 mb-1.5">Request Timeout</label>
                 <div className="relative">
                     <select
-                      name="model"
-                      value={prefs.model}
-                      onChange={handleInputChange}
+                      value={requestTimeoutSec}
+                      onChange={(e) => setRequestTimeoutSec(Number(e.target.value))}
                       className="w-full p-2 text-sm border border-slate-300 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none bg-white appearance-none"
                     >
-                      <option value={ModelId.BEST}>Best (Gemini 3.0 Pro)</option>
-                      <option value={ModelId.BALANCED}>Balanced (Gemini 2.5 Flash)</option>
-                      <option value={ModelId.FAST}>Fast (Gemini 2.5 Flash Lite)</option>
+                      {[30, 60, 90, 180, 300].map(sec => (
+                        <option key={sec} value={sec}>{sec} seconds</option>
+                      ))}
                     </select>
                     <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-slate-500">
                       <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" /></svg>
                     </div>
                 </div>
+                <p className="text-[10px] text-slate-400 mt-1">Includes retries after rate limits or network failures.</p>
+             </div>
+
+             <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1.5">Parallel Searches</label>
+                <div className="relative">
+                    <select
+                      value={concurrency}
+                      onChange={(e) => setConcurrency(Number(e.target.value))}
+                      className="w-full p-2 text-sm border border-slate-300 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none bg-white appearance-none"
+                    >
+                      {[1, 2, 3, 4, 5].map(n => (
+                        <option key={n} value={n}>{n} at a time</option>
+                      ))}
+                    </select>
+                    <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-slate-500">
+                      <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" /></svg>
+                    </div>
+                </div>
+                <p className="text-[10px] text-slate-400 mt-1">Further searches wait in a queue. Lower this if you hit rate limits.</p>
+             </div>
+
+             <div className="flex items-center justify-between">
+                <span className="text-xs font-medium text-slate-600">Result Cache</span>
+                <button
+                  onClick={() => setIsCacheOpen(true)}
+                  className="text-xs text-indigo-600 hover:text-indigo-700 font-medium"
+                >
+                  Manage…
+                </button>
+             </div>
+
+             <div className="flex items-center justify-between">
+                <span className="text-xs font-medium text-slate-600">
+                  Learned Preferences
+                  {!isEmptyProfile(profile) && <span className="ml-1 text-[10px] text-emerald-600">(active)</span>}
+                </span>
+                <button
+                  onClick={() => setIsProfileOpen(true)}
+                  className="text-xs text-indigo-600 hover:text-indigo-700 font-medium"
+                >
+                  Review…
+                </button>
+             </div>
+
+             <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1.5">Removal Reasons</label>
+                <CustomReasonsEditor reasons={customReasons} onChange={setCustomReasons} />
+                <p className="text-[10px] text-slate-400 mt-1">Offered in each card's ✕ menu next to the built-in reasons.</p>
              </div>
            </section>
 
@@ -587,6 +1286,26 @@ const App: React.FC = () => {
                 </div>
               </div>
 
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1.5">Evidence</label>
+                <div className="relative">
+                  <select 
+                    name="evidenceMode" 
+                    value={prefs.evidenceMode || EvidenceMode.SUPPORTING} 
+                    onChange={handleInputChange}
+                    className="w-full p-2 text-sm border border-slate-300 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none bg-white appearance-none"
+                  >
+                    {Object.values(EvidenceMode).map(mode => (
+                      <option key={mode} value={mode}>{mode}</option>
+                    ))}
+                  </select>
+                   <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-slate-500">
+                      <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" /></svg>
+                    </div>
+                </div>
+                <p className="text-[10px] text-slate-400 mt-1">Counter-evidence runs a second search for papers that dispute the claim.</p>
+              </div>
+
               <div className="grid grid-cols-2 gap-3">
                 <div>
                   <label className="block text-xs font-medium text-slate-600 mb-1.5">Count (1-5)</label>
@@ -627,6 +1346,20 @@ const App: React.FC = () => {
                 onChange={handleMultiSelectChange('sourceTypes')}
                 placeholder="All Types"
               />
+
+              <label className="flex items-start gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  name="supportedOnly"
+                  checked={!!prefs.supportedOnly}
+                  onChange={handleCheckboxChange}
+                  className="mt-0.5 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                <span>
+                  <span className="block text-xs font-medium text-slate-600">Supporting references only</span>
+                  <span className="block text-[10px] text-slate-400">Leave out results rated partial, contradicting or unrelated to the claim.</span>
+                </span>
+              </label>
            </section>
         </div>
       </div>
@@ -649,16 +1382,34 @@ const App: React.FC = () => {
                  </svg>
                  Guide
               </button>
-              <div className="h-4 w-px bg-slate-200"></div>
-              <button 
-                onClick={handleExport}
-                className="text-xs flex items-center gap-1 text-indigo-600 hover:text-indigo-700 font-semibold transition-colors bg-indigo-50 hover:bg-indigo-100 px-3 py-1.5 rounded-md"
+              <button
+                onClick={() => setIsLibraryOpen(true)}
+                className="text-xs flex items-center gap-1 text-slate-500 hover:text-indigo-600 font-medium transition-colors px-2 py-1 hover:bg-slate-50 rounded"
               >
-                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"></path>
-                </svg>
-                Export
+                 <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+                 </svg>
+                 Library{library.length > 0 && <span className="text-slate-400">({library.length})</span>}
               </button>
+              <SessionsMenu
+                currentSessionId={sessionId}
+                getSessions={listSessions}
+                onOpen={handleOpenSession}
+                onNew={handleNewSession}
+                onDelete={deleteSession}
+                onOpenFile={handleOpenFile}
+                fileAccept={[PROJECT_FILE_EXTENSION, '.json', ...MANUSCRIPT_EXTENSIONS].join(',')}
+              />
+              <div className="h-4 w-px bg-slate-200"></div>
+              <ExportMenu 
+                options={EXPORT_OPTIONS} 
+                onExport={handleExport}
+                styles={Object.values(CITATION_STYLES).map(style => ({ id: style.id, name: style.name }))}
+                selectedStyle={citationStyle}
+                onStyleChange={(id) => setCitationStyle(id as CitationStyleId)}
+                supportedOnly={exportSupportedOnly}
+                onSupportedOnlyChange={setExportSupportedOnly}
+              />
            </div>
         </div>
         
@@ -670,6 +1421,7 @@ const App: React.FC = () => {
                suppressContentEditableWarning={true}
                onClick={handleEditorClick}
                onPaste={handlePaste}
+               onInput={() => setEditorVersion(v => v + 1)}
                spellCheck={false}
                style={{ whiteSpace: 'pre-wrap' }}
            />
@@ -687,6 +1439,28 @@ const App: React.FC = () => {
         {/* Results Content */}
         <div className="flex-1 overflow-y-auto p-5 bg-slate-50 relative">
           
+          {batchIds && (
+             <BatchProgress
+               items={batchItems}
+               onSelect={handleSelectSearch}
+               onCancel={handleStopBatch}
+               onRetryFailed={handleRetryFailedBatch}
+               onClose={() => setBatchIds(null)}
+             />
+          )}
+
+          {suggestions.length > 0 && (
+             <ClaimSuggestions
+               suggestions={suggestions}
+               activeId={activeSuggestionId}
+               onSelect={handleSelectSuggestion}
+               onAccept={handleAcceptSuggestion}
+               onDismiss={handleDismissSuggestion}
+               onAcceptAll={() => suggestions.forEach(s => handleAcceptSuggestion(s.id))}
+               onDismissAll={() => suggestions.forEach(s => handleDismissSuggestion(s.id))}
+             />
+          )}
+
           {uiError && (
              <div className="p-4 bg-red-50 border border-red-200 rounded-md text-red-600 text-xs mb-4">
                <strong>Note:</strong> {uiError}
@@ -694,7 +1468,7 @@ const App: React.FC = () => {
           )}
 
           {currentError && (
-             <div className="p-4 bg-red-50 border border-red-200 rounded-md text-red-600 text-sm mb-4 animate-pulse">
+             <div className="p-4 bg-red-50 border border-red-200 rounded-md text-red-600 text-sm mb-4 break-words">
                <strong>Error:</strong> {currentError}
              </div>
           )}
@@ -706,7 +1480,16 @@ const App: React.FC = () => {
                         <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
                         Search Parameters
                     </h3>
-                    <div className="flex gap-2">
+                    <div className="flex gap-2 items-center">
+                         <label className="text-[10px] text-slate-500 flex items-center gap-1 cursor-pointer" title="Ask the provider again instead of reusing a cached result">
+                            <input
+                              type="checkbox"
+                              checked={bypassCacheOnRetry}
+                              onChange={(e) => setBypassCacheOnRetry(e.target.checked)}
+                              className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                            />
+                            Bypass cache
+                         </label>
                          <button 
                             onClick={handleRetry}
                             disabled={isCurrentLoading}
@@ -728,6 +1511,18 @@ const App: React.FC = () => {
                 </div>
                 
                 <div className="p-4 bg-white text-xs text-slate-600 space-y-3">
+                     <div className="flex items-start justify-between">
+                        <span className="font-semibold text-slate-500 w-16 shrink-0">Source</span>
+                        <span className="text-right text-slate-800 font-medium">{getProvider(activeData.queryPrefs.provider).name}</span>
+                     </div>
+
+                     {activeData.cachedAt && activeData.status === 'success' && (
+                        <div className="flex items-start justify-between">
+                           <span className="font-semibold text-slate-500 w-16 shrink-0">Cache</span>
+                           <span className="text-right text-slate-800">Saved result from {new Date(activeData.cachedAt).toLocaleString()}</span>
+                        </div>
+                     )}
+
                      <div className="flex items-start justify-between">
                         <span className="font-semibold text-slate-500 w-16 shrink-0">Model</span>
                         <span className="text-right text-slate-800 font-medium">{activeData.queryPrefs.model}</span>
@@ -737,6 +1532,11 @@ const App: React.FC = () => {
                         <span className="font-semibold text-slate-500 w-16 shrink-0">Priority</span>
                         <span className="text-right text-slate-800">{activeData.queryPrefs.priority}</span>
                      </div>
+
+                     <div className="flex items-start justify-between">
+                        <span className="font-semibold text-slate-500 w-16 shrink-0">Evidence</span>
+                        <span className="text-right text-slate-800">{activeData.queryPrefs.evidenceMode || EvidenceMode.SUPPORTING}</span>
+                     </div>
                      
                      <div className="flex items-start justify-between">
                         <span className="font-semibold text-slate-500 w-16 shrink-0">Year</span>
@@ -747,6 +1547,11 @@ const App: React.FC = () => {
                         <span className="font-semibold text-slate-500 w-16 shrink-0">Count</span>
                         <span className="text-right text-slate-800">{activeData.queryPrefs.numReferences}</span>
                      </div>
+
+                     <div className="flex items-start justify-between">
+                        <span className="font-semibold text-slate-500 w-16 shrink-0">Support</span>
+                        <span className="text-right text-slate-800">{activeData.queryPrefs.supportedOnly ? 'Supporting only' : 'Any rating'}</span>
+                     </div>
                      
                      <div>
                         <span className="font-semibold text-slate-500 block mb-1">Publishers</span>
@@ -782,32 +1587,157 @@ const App: React.FC = () => {
              </div>
           )}
 
-          {isCurrentLoading && (
+          {pinnedEntries.length > 0 && (
+             <div className="mb-4 bg-emerald-50/60 border border-emerald-200 rounded-lg overflow-hidden">
+               <div className="px-3 py-2 border-b border-emerald-100 flex justify-between items-center">
+                 <span className="font-bold text-emerald-800 uppercase tracking-wide text-[10px]">Cited here ({pinnedEntries.length})</span>
+                 <button onClick={() => setIsLibraryOpen(true)} className="text-[10px] text-emerald-700 hover:text-emerald-900 font-medium">Open library</button>
+               </div>
+               <ul>
+                 {pinnedEntries.map(entry => (
+                   <li key={entry.id} className="px-3 py-2 flex items-start justify-between gap-2 text-xs border-b border-emerald-100/60 last:border-0">
+                     <span className="min-w-0">
+                       <span className="block text-slate-800 font-medium leading-snug">{entry.reference.title}</span>
+                       <span className="block text-[10px] text-slate-500">{entry.reference.authors[0]}{entry.reference.authors.length > 1 ? ' et al.' : ''} &bull; {entry.reference.year}</span>
+                     </span>
+                     <button
+                       onClick={() => activeSearchId && setPinned(activeSearchId, entry.id, false)}
+                       className="text-[10px] text-slate-400 hover:text-red-500 shrink-0"
+                     >
+                       Unpin
+                     </button>
+                   </li>
+                 ))}
+               </ul>
+               <p className="px-3 py-1.5 text-[10px] text-emerald-700 bg-emerald-50">Only these are cited for this highlight in the export.</p>
+             </div>
+          )}
+
+          {libraryMatchItems.length > 0 && (
+             <LibraryMatches
+               matches={libraryMatchItems}
+               pinnedIds={activePinned}
+               onTogglePin={(id) => activeSearchId && setPinned(activeSearchId, id, !activePinned.includes(id))}
+             />
+          )}
+
+          {isCurrentQueued && (
+             <div className="flex flex-col items-center justify-center pt-20 text-slate-500">
+                <p className="text-sm font-medium">
+                  {queuePosition > 0 ? `Queued — position ${queuePosition} of ${queuedIds.length}` : 'Queued'}
+                </p>
+                <p className="text-xs text-slate-400 mt-1">Waiting for a free slot ({concurrency} at a time).</p>
+                <div className="flex gap-2 mt-4">
+                  {queuePosition > 1 && (
+                    <button
+                      onClick={handleRunNext}
+                      className="text-xs px-3 py-1.5 rounded bg-white border border-slate-200 shadow-sm hover:bg-indigo-50 text-indigo-600 font-medium transition-all"
+                    >
+                      Run next
+                    </button>
+                  )}
+                  <button
+                    onClick={handleCancel}
+                    className="text-xs px-3 py-1.5 rounded bg-white border border-slate-200 shadow-sm hover:bg-red-50 hover:border-red-100 hover:text-red-600 text-slate-600 font-medium transition-all"
+                  >
+                    Cancel
+                  </button>
+                </div>
+             </div>
+          )}
+
+          {isCurrentLoading && !isCurrentQueued && (
              <div className="flex flex-col items-center justify-center pt-20 text-indigo-600">
                 <div className="scale-125 mb-4"><Spinner /></div>
                 <p className="text-sm font-medium animate-pulse">Finding citations...</p>
+                <button
+                  onClick={handleCancel}
+                  className="mt-4 text-xs px-3 py-1.5 rounded bg-white border border-slate-200 shadow-sm hover:bg-red-50 hover:border-red-100 hover:text-red-600 text-slate-600 font-medium transition-all"
+                >
+                  Cancel
+                </button>
              </div>
           )}
 
           {!isCurrentLoading && activeData && currentReferences.length === 0 && !currentError && (
              <div className="flex flex-col items-center justify-center py-10 text-slate-400">
-                 <p className="text-center text-sm">No references found.</p>
+                 <p className="text-center text-sm">{libraryMatchItems.length > 0 ? 'No further references found.' : 'No references found.'}</p>
              </div>
           )}
 
-          {!isCurrentLoading && currentReferences.map((ref, index) => (
-            <ReferenceCard 
-              key={`${activeSearchId}-${index}-${ref.url}`} 
-              reference={ref} 
-              onDisapprove={(reason) => handleDisapprove(index, reason)}
-            />
-          ))}
+          {!isCurrentLoading && activeData?.rejected && activeData.rejected.length > 0 && (
+             <details className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-md text-amber-800 text-xs">
+               <summary className="cursor-pointer font-medium">
+                 {activeData.rejected.length} {activeData.rejected.length === 1 ? 'item' : 'items'} in the response failed validation and {activeData.rejected.length === 1 ? 'was' : 'were'} skipped
+               </summary>
+               <ul className="mt-2 space-y-1 list-disc pl-4">
+                 {activeData.rejected.map((item, i) => (
+                   <li key={i}>
+                     <span className="font-medium">{item.title || `Item ${item.index + 1}`}</span>: {item.problems.join('; ')}
+                   </li>
+                 ))}
+               </ul>
+             </details>
+          )}
+
+          {!isCurrentLoading && currentReferences.map((ref, index) => {
+            const entry = findLibraryEntry(library, ref);
+            return (
+              <ReferenceCard 
+                key={`${activeSearchId}-${index}-${ref.url}`} 
+                reference={entry ? { ...entry.reference, support: ref.support, groundingSources: ref.groundingSources } : ref} 
+                onDisapprove={(reason, note) => handleDisapprove(index, reason, note)}
+                customReasons={customReasons}
+                onSaveReason={label => setCustomReasons(prev => addCustomReason(prev, label))}
+                accepted={!!entry && activePinned.includes(entry.id)}
+                onAccept={() => handleAccept(ref)}
+                approved={!!activeData && isApproved(activeData, ref)}
+                onApprove={() => handleApprove(ref)}
+                favorite={!!findLikedPaper(profile, ref)?.favorite}
+                onFavorite={() => handleFavorite(ref)}
+                onMoreLikeThis={() => handleMoreLikeThis(index)}
+                grounding={activeData?.grounding}
+              />
+            );
+          })}
 
           {activeData?.isRefilling && (
             <div className="flex items-center justify-center py-4 text-indigo-600 text-xs gap-2">
                 <Spinner /> Fetching additional references...
             </div>
           )}
+
+          {!isCurrentLoading && activeData?.status === 'success' && activeData.counterEvidence && (
+            <div className="mt-6">
+              <div className="flex items-center gap-2 mb-3">
+                <span className="font-bold text-rose-700 uppercase tracking-wide text-[10px]">Counter-evidence</span>
+                <span className="flex-1 border-t border-rose-100"></span>
+              </div>
+              {activeData.counterError && (
+                <p className="text-xs p-2 mb-3 rounded border bg-red-50 border-red-200 text-red-600">
+                  The counter-evidence search failed: {activeData.counterError} Retry to search again.
+                </p>
+              )}
+              {!activeData.counterError && activeData.counterEvidence.length === 0 && (
+                <p className="text-xs text-slate-400 italic mb-3">No papers disputing this claim were found.</p>
+              )}
+              {activeData.counterEvidence.map((ref, index) => {
+                const entry = findLibraryEntry(library, ref);
+                return (
+                  <ReferenceCard
+                    key={`${activeSearchId}-counter-${index}-${ref.url}`}
+                    reference={entry ? { ...entry.reference, support: ref.support, groundingSources: ref.groundingSources } : ref}
+                    onDisapprove={(reason, note) => handleDismissCounter(index, reason, note)}
+                    customReasons={customReasons}
+                    onSaveReason={label => setCustomReasons(prev => addCustomReason(prev, label))}
+                    accepted={!!entry && activePinned.includes(entry.id)}
+                    onAccept={() => handleAccept(ref, false)}
+                    grounding={activeData.grounding}
+                  />
+                );
+              })}
+            </div>
+          )}
           
           <div className="h-10"></div>
         </div>
@@ -0,0 +1,84 @@
+import React from 'react';
+
+export type BatchItemState = 'pending' | 'cited' | 'empty' | 'failed';
+
+export interface BatchItem {
+  id: string;
+  label: string;
+  state: BatchItemState;
+  error?: string;
+}
+
+interface BatchProgressProps {
+  items: BatchItem[];
+  onSelect: (id: string) => void;
+  onCancel: () => void;
+  onRetryFailed: () => void;
+  onClose: () => void;
+}
+
+export const BatchProgress: React.FC<BatchProgressProps> = ({ items, onSelect, onCancel, onRetryFailed, onClose }) => {
+  const count = (state: BatchItemState) => items.filter(item => item.state === state).length;
+  const pending = count('pending');
+  const cited = count('cited');
+  const empty = count('empty');
+  const failed = items.filter(item => item.state === 'failed');
+  const finished = pending === 0;
+  const percent = items.length > 0 ? Math.round(((items.length - pending) / items.length) * 100) : 100;
+
+  return (
+    <div className="mb-6 bg-white border border-slate-200 rounded-lg shadow-sm overflow-hidden">
+      <div className="bg-slate-50/80 px-4 py-3 border-b border-slate-100 flex justify-between items-center">
+        <h3 className="font-bold text-slate-700 uppercase tracking-wide text-[10px]">
+          {finished ? 'Cite everything: done' : `Citing ${items.length} claims…`}
+        </h3>
+        {finished ? (
+          <button onClick={onClose} className="text-xs text-slate-400 hover:text-slate-600 font-medium">Close</button>
+        ) : (
+          <button onClick={onCancel} className="text-xs text-slate-500 hover:text-red-600 font-medium">Stop</button>
+        )}
+      </div>
+
+      <div className="p-4 space-y-3 text-xs text-slate-600">
+        <div className="w-full h-1.5 bg-slate-100 rounded-full overflow-hidden">
+          <div className="h-full bg-indigo-500 transition-all duration-300" style={{ width: `${percent}%` }} />
+        </div>
+
+        {finished ? (
+          <p className="text-slate-700">
+            <strong>{cited} of {items.length}</strong> claims got references.
+            {empty > 0 && ` ${empty} found nothing.`}
+            {failed.length > 0 && ` ${failed.length} failed.`}
+          </p>
+        ) : (
+          <p>
+            {items.length - pending} of {items.length} finished · {cited} cited
+            {failed.length > 0 && <span className="text-red-500"> · {failed.length} failed</span>}
+          </p>
+        )}
+
+        {failed.length > 0 && (
+          <div>
+            <ul className="space-y-1 max-h-40 overflow-y-auto">
+              {failed.map(item => (
+                <li
+                  key={item.id}
+                  onClick={() => onSelect(item.id)}
+                  className="p-2 rounded bg-red-50 border border-red-100 cursor-pointer hover:bg-red-100/60"
+                >
+                  <span className="block text-slate-700 truncate font-serif">"{item.label}"</span>
+                  <span className="block text-[10px] text-red-500 truncate" title={item.error}>{item.error}</span>
+                </li>
+              ))}
+            </ul>
+            {finished && (
+              <button onClick={onRetryFailed} className="mt-2 text-xs text-indigo-600 hover:text-indigo-700 font-medium">
+                Retry failed claims
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
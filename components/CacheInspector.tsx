@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { CacheEntry, CACHE_TTL_MS, MAX_CACHE_ENTRIES, listCacheEntries, deleteCacheEntry, clearCache } from '../services/resultCache';
+
+interface CacheInspectorProps {
+  onClose: () => void;
+}
+
+const formatAge = (timestamp: number): string => {
+  const minutes = Math.round((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return `${Math.round(hours / 24)} d ago`;
+};
+
+export const CacheInspector: React.FC<CacheInspectorProps> = ({ onClose }) => {
+  const [entries, setEntries] = useState<CacheEntry[]>(() => listCacheEntries());
+
+  const handleDelete = (key: string) => {
+    deleteCacheEntry(key);
+    setEntries(listCacheEntries());
+  };
+
+  const handleClearAll = () => {
+    clearCache();
+    setEntries([]);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4 animate-in fade-in duration-200"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-xl max-h-[80vh] flex flex-col overflow-hidden border border-slate-200"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800">Result Cache</h2>
+            <p className="text-xs text-slate-500">
+              Repeated searches are answered from here. Entries expire after {Math.round(CACHE_TTL_MS / 86400000)} days; at most {MAX_CACHE_ENTRIES} are kept.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 hover:bg-slate-100 p-1 rounded-full transition-colors"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {entries.length === 0 && (
+            <p className="px-6 py-10 text-sm text-slate-400 text-center">The cache is empty.</p>
+          )}
+          {entries.map(entry => (
+            <div key={entry.key} className="px-6 py-3 border-b border-slate-50 flex items-start justify-between gap-3 hover:bg-slate-50">
+              <div className="min-w-0">
+                <p className="text-sm text-slate-700 truncate" title={entry.label}>"{entry.label}"</p>
+                <p className="text-[10px] text-slate-400">
+                  {entry.result.references.length} references · {entry.model} · {entry.provider} · saved {formatAge(entry.createdAt)}
+                </p>
+              </div>
+              <button
+                onClick={() => handleDelete(entry.key)}
+                className="text-xs text-slate-400 hover:text-red-500 shrink-0"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="px-6 py-3 border-t border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <span className="text-xs text-slate-500">{entries.length} cached {entries.length === 1 ? 'search' : 'searches'}</span>
+          <button
+            onClick={handleClearAll}
+            disabled={entries.length === 0}
+            className="text-xs px-3 py-1.5 rounded bg-white border border-slate-200 shadow-sm hover:bg-red-50 hover:border-red-100 hover:text-red-600 text-slate-600 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Clear all
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
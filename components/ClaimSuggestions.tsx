@@ -0,0 +1,58 @@
+import React from 'react';
+import { ClaimSuggestion } from '../services/claimDetection';
+
+interface ClaimSuggestionsProps {
+  suggestions: ClaimSuggestion[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onAccept: (id: string) => void;
+  onDismiss: (id: string) => void;
+  onAcceptAll: () => void;
+  onDismissAll: () => void;
+}
+
+export const ClaimSuggestions: React.FC<ClaimSuggestionsProps> = ({ suggestions, activeId, onSelect, onAccept, onDismiss, onAcceptAll, onDismissAll }) => (
+  <div className="mb-6 bg-white border border-indigo-100 rounded-lg shadow-sm overflow-hidden">
+    <div className="bg-indigo-50/60 px-4 py-3 border-b border-indigo-100 flex justify-between items-center">
+      <h3 className="font-bold text-indigo-700 uppercase tracking-wide text-[10px]">
+        Uncited claims ({suggestions.length})
+      </h3>
+      <div className="flex gap-3 text-xs font-medium">
+        <button onClick={onAcceptAll} className="text-indigo-600 hover:text-indigo-700" title="Search references for every suggestion">
+          Accept all
+        </button>
+        <button onClick={onDismissAll} className="text-slate-400 hover:text-slate-600">
+          Dismiss all
+        </button>
+      </div>
+    </div>
+    <ul className="max-h-72 overflow-y-auto divide-y divide-slate-50">
+      {suggestions.map(suggestion => (
+        <li
+          key={suggestion.id}
+          onClick={() => onSelect(suggestion.id)}
+          className={`px-4 py-2.5 cursor-pointer hover:bg-slate-50 ${suggestion.id === activeId ? 'bg-indigo-50/60' : ''}`}
+        >
+          <p className="text-xs text-slate-700 line-clamp-2 font-serif">{suggestion.text}</p>
+          <div className="flex items-center justify-between mt-1.5">
+            <span className="text-[10px] text-slate-400">{suggestion.reason}</span>
+            <div className="flex gap-2">
+              <button
+                onClick={(e) => { e.stopPropagation(); onAccept(suggestion.id); }}
+                className="text-[11px] px-2 py-0.5 rounded bg-indigo-600 text-white hover:bg-indigo-700 font-medium"
+              >
+                Find references
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); onDismiss(suggestion.id); }}
+                className="text-[11px] px-2 py-0.5 rounded border border-slate-200 text-slate-500 hover:bg-slate-50 font-medium"
+              >
+                Dismiss
+              </button>
+            </div>
+          </div>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
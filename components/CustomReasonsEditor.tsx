@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { CustomReason } from '../types';
+import { MAX_REASON_LENGTH, addCustomReason, cleanReason } from '../services/customReasons';
+
+interface CustomReasonsEditorProps {
+  reasons: CustomReason[];
+  onChange: (reasons: CustomReason[]) => void;
+}
+
+const inputClass = "flex-1 min-w-0 p-1.5 text-xs border border-slate-300 rounded focus:ring-2 focus:ring-indigo-500 outline-none";
+
+// One row per reason; edits are applied when the field loses focus, so a half-typed name is never saved
+const ReasonRow: React.FC<{
+  reason: CustomReason;
+  onRename: (label: string) => void;
+  onDelete: () => void;
+}> = ({ reason, onRename, onDelete }) => {
+  const [label, setLabel] = useState(reason.label);
+
+  const commit = () => {
+    const clean = cleanReason(label);
+    if (clean && clean !== reason.label) onRename(clean);
+    else setLabel(reason.label);
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <input
+        type="text"
+        value={label}
+        maxLength={MAX_REASON_LENGTH}
+        onChange={e => setLabel(e.target.value)}
+        onBlur={commit}
+        onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+        className={inputClass}
+      />
+      <button
+        onClick={onDelete}
+        className="text-slate-400 hover:text-red-500 px-1 text-sm"
+        title="Delete this reason"
+      >
+        &times;
+      </button>
+    </div>
+  );
+};
+
+export const CustomReasonsEditor: React.FC<CustomReasonsEditorProps> = ({ reasons, onChange }) => {
+  const [draft, setDraft] = useState('');
+
+  const handleAdd = () => {
+    onChange(addCustomReason(reasons, draft));
+    setDraft('');
+  };
+
+  return (
+    <div className="space-y-1.5">
+      {reasons.map(reason => (
+        <ReasonRow
+          key={reason.id}
+          reason={reason}
+          onRename={label => onChange(reasons.map(r => (r.id === reason.id ? { ...r, label } : r)))}
+          onDelete={() => onChange(reasons.filter(r => r.id !== reason.id))}
+        />
+      ))}
+      <div className="flex items-center gap-1">
+        <input
+          type="text"
+          value={draft}
+          maxLength={MAX_REASON_LENGTH}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') handleAdd(); }}
+          placeholder="Add a reason, e.g. too general"
+          className={inputClass}
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!draft.trim()}
+          className="text-xs text-indigo-600 hover:text-indigo-700 font-medium px-1 disabled:opacity-40"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  );
+};
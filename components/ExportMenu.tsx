@@ -0,0 +1,93 @@
+import React, { useState, useRef, useEffect } from 'react';
+
+export interface ExportOption {
+  id: string;
+  label: string;
+  description: string;
+}
+
+interface ExportMenuProps {
+  options: ExportOption[];
+  onExport: (optionId: string) => void;
+  styles: { id: string; name: string }[];
+  selectedStyle: string;
+  onStyleChange: (styleId: string) => void;
+  supportedOnly: boolean; // Leave out search results not rated "supports"
+  onSupportedOnlyChange: (value: boolean) => void;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({
+  options, onExport, styles, selectedStyle, onStyleChange, supportedOnly, onSupportedOnlyChange
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close menu on click outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const handleSelect = (optionId: string) => {
+    onExport(optionId);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-xs flex items-center gap-1 text-indigo-600 hover:text-indigo-700 font-semibold transition-colors bg-indigo-50 hover:bg-indigo-100 px-3 py-1.5 rounded-md"
+      >
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"></path>
+        </svg>
+        Export
+        <svg className={`w-3 h-3 transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path>
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-9 z-30 w-64 bg-white border border-slate-200 rounded-md shadow-lg overflow-hidden animate-in fade-in zoom-in-95 duration-100">
+          <div className="px-3 py-2 bg-slate-50 border-b border-slate-100">
+            <label className="block text-[10px] font-semibold text-slate-500 uppercase mb-1">Citation Style</label>
+            <select
+              value={selectedStyle}
+              onChange={(e) => onStyleChange(e.target.value)}
+              className="w-full p-1.5 text-xs border border-slate-300 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none bg-white"
+            >
+              {styles.map(style => (
+                <option key={style.id} value={style.id}>{style.name}</option>
+              ))}
+            </select>
+            <label className="mt-2 flex items-center gap-1.5 text-[11px] text-slate-600 cursor-pointer" title="Pinned library references are always included">
+              <input
+                type="checkbox"
+                checked={supportedOnly}
+                onChange={(e) => onSupportedOnlyChange(e.target.checked)}
+                className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Only references rated "supports"
+            </label>
+          </div>
+          {options.map(option => (
+            <button
+              key={option.id}
+              onClick={() => handleSelect(option.id)}
+              className="w-full text-left px-3 py-2 hover:bg-indigo-50 border-b border-slate-50 last:border-b-0"
+            >
+              <span className="block text-xs font-semibold text-slate-700">{option.label}</span>
+              <span className="block text-[11px] text-slate-500">{option.description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -70,6 +70,7 @@ export const HelpModal: React.FC<HelpModalProps> = ({ onClose }) => {
                         <li><strong>Context-Aware:</strong> Uses surrounding text to understand meaning.</li>
                         <li><strong>Filters:</strong> Refine by Year, Publisher, or Document Type.</li>
                         <li><strong>Priority:</strong> Sort by Citation Count, Impact, or Date.</li>
+                        <li><strong>AI Service:</strong> Use Gemini, any OpenAI-compatible API, or a local Ollama or llama.cpp server, set under <em>System</em>.</li>
                     </ul>
                 </div>
 
@@ -78,8 +79,12 @@ export const HelpModal: React.FC<HelpModalProps> = ({ onClose }) => {
                          🛠️ Refinement
                     </h4>
                     <ul className="text-sm space-y-1 list-disc pl-4">
-                        <li><strong>Disapprove:</strong> Remove irrelevant papers via the card menu.</li>
-                        <li><strong>Learning:</strong> The AI learns from your rejections to find better replacements.</li>
+                        <li><strong>Keep, star &amp; more like this:</strong> 👍 locks a result, ★ makes it a lasting example, and <em>More like this</em> finds similar papers.</li>
+                        <li><strong>Counter-evidence:</strong> Set <em>Evidence</em> to include papers that dispute a claim, listed separately.</li>
+                        <li><strong>Provenance:</strong> Open <em>Where did this come from?</em> on a card to see the web pages and searches behind it.</li>
+                        <li><strong>Disapprove:</strong> Remove irrelevant papers via the card menu, with a built-in reason or your own words.</li>
+                        <li><strong>Learning:</strong> Your rejections build a preference profile (blocked journals, avoided papers, and, after repeated feedback, preferred years, citations and topics to avoid) applied to every later search. Review it under <em>Learned Preferences</em>.</li>
+                        <li><strong>Library:</strong> Accept a paper with ✓ to keep it in your library and cite it at that highlight. Import a Zotero or BibTeX library to see your own papers first.</li>
                     </ul>
                 </div>
             </div>
@@ -93,6 +98,9 @@ export const HelpModal: React.FC<HelpModalProps> = ({ onClose }) => {
             <p className="pl-9">
               Click the <strong>Export</strong> button to download your manuscript. Citations will be inserted as bracketed numbers <code>[1]</code>, and a formatted bibliography will be appended to the file.
             </p>
+            <p className="pl-9 mt-2">
+              Choose a <strong>Citation Style</strong> (APA, Vancouver, IEEE, Nature or ACS) in the menu before exporting; the <strong>Word (.docx)</strong> and HTML exports keep paragraphs, headings, italics and superscripts. The same menu downloads the bibliography alone as <strong>BibTeX</strong>, <strong>RIS</strong> or <strong>CSL-JSON</strong> for LaTeX and reference managers such as Zotero. <strong>LaTeX + BibTeX</strong> produces a zip with <code>main.tex</code> (using <code>\cite{'{'}key{'}'}</code>) and a matching <code>references.bib</code>, ready for Overleaf.
+            </p>
           </section>
 
         </div>
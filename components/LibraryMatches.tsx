@@ -0,0 +1,49 @@
+import React from 'react';
+import { LibraryEntry, LibraryMatch } from '../types';
+
+interface LibraryMatchesProps {
+  matches: { match: LibraryMatch; entry: LibraryEntry }[];
+  pinnedIds: string[];
+  onTogglePin: (entryId: string) => void;
+}
+
+export const LibraryMatches: React.FC<LibraryMatchesProps> = ({ matches, pinnedIds, onTogglePin }) => (
+  <div className="mb-4 bg-white border border-indigo-200 rounded-lg shadow-sm overflow-hidden">
+    <div className="bg-indigo-50/70 px-3 py-2 border-b border-indigo-100">
+      <span className="font-bold text-indigo-800 uppercase tracking-wide text-[10px]">From your library</span>
+    </div>
+    <ul>
+      {matches.map(({ match, entry }) => {
+        const isPinned = pinnedIds.includes(entry.id);
+        const { reference } = entry;
+        return (
+          <li key={entry.id} className="px-3 py-2.5 flex items-start justify-between gap-2 border-b border-slate-100 last:border-0">
+            <div className="min-w-0">
+              <a
+                href={reference.url || undefined}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block text-xs font-semibold text-indigo-900 leading-snug hover:underline"
+              >
+                {reference.title}
+              </a>
+              <span className="block text-[10px] text-slate-500">
+                {reference.authors[0]}{reference.authors.length > 1 ? ' et al.' : ''} &bull; {reference.year} &bull; {reference.publication}
+                {entry.citationKey && <> &bull; <span className="font-mono">{entry.citationKey}</span></>}
+              </span>
+              <span className="block text-[10px] text-slate-400 mt-0.5" title={`Match score ${Math.round(match.score * 100)}%`}>
+                Matches: {match.terms.join(', ')}
+              </span>
+            </div>
+            <button
+              onClick={() => onTogglePin(entry.id)}
+              className={`text-[10px] px-2 py-1 rounded border font-medium shrink-0 transition-colors ${isPinned ? 'bg-emerald-50 border-emerald-200 text-emerald-700 hover:bg-red-50 hover:border-red-100 hover:text-red-600' : 'bg-white border-slate-200 text-indigo-600 hover:bg-indigo-50'}`}
+            >
+              {isPinned ? 'Cited ✓' : 'Cite here'}
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  </div>
+);
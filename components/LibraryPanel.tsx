@@ -0,0 +1,273 @@
+import React, { useState, useRef } from 'react';
+import { LibraryEntry, Reference } from '../types';
+import { libraryTags } from '../services/referenceLibrary';
+import { LIBRARY_FILE_EXTENSIONS } from '../services/libraryImport';
+
+interface LibraryPanelProps {
+  entries: LibraryEntry[];
+  pinCounts: Record<string, number>; // Highlights in this manuscript that cite each entry
+  activeClaim: string | null; // Text of the selected highlight, if any
+  activePinned: string[];
+  onTogglePin: (id: string) => void;
+  onUpdate: (entry: LibraryEntry) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => Promise<string>; // Resolves to a summary for the user
+  onClose: () => void;
+}
+
+interface Draft {
+  title: string;
+  authors: string; // One per line
+  year: string;
+  publication: string;
+  doi: string;
+  url: string;
+  tags: string; // Comma-separated
+}
+
+const toDraft = (entry: LibraryEntry): Draft => ({
+  title: entry.reference.title,
+  authors: entry.reference.authors.join('\n'),
+  year: entry.reference.year,
+  publication: entry.reference.publication,
+  doi: entry.reference.doi || '',
+  url: entry.reference.url,
+  tags: entry.tags.join(', '),
+});
+
+const fromDraft = (entry: LibraryEntry, draft: Draft): LibraryEntry => {
+  const reference: Reference = {
+    ...entry.reference,
+    title: draft.title.trim(),
+    authors: draft.authors.split('\n').map(a => a.trim()).filter(Boolean),
+    year: draft.year.trim(),
+    publication: draft.publication.trim(),
+    doi: draft.doi.trim() || undefined,
+    url: draft.url.trim(),
+  };
+  const tags = [...new Set(draft.tags.split(',').map(t => t.trim()).filter(Boolean))];
+  return { ...entry, reference, tags };
+};
+
+const matchesFilter = (entry: LibraryEntry, filter: string): boolean => {
+  const needle = filter.trim().toLowerCase();
+  if (!needle) return true;
+  const { title, authors, publication, year, doi } = entry.reference;
+  return [title, publication, year, doi || '', ...authors, ...entry.tags].some(field => field.toLowerCase().includes(needle));
+};
+
+// Imported libraries can be large; the filter narrows the rest down
+const MAX_SHOWN = 200;
+
+const inputClass = "w-full p-1.5 text-xs border border-slate-300 rounded focus:ring-2 focus:ring-indigo-500 outline-none";
+
+export const LibraryPanel: React.FC<LibraryPanelProps> = ({
+  entries, pinCounts, activeClaim, activePinned, onTogglePin, onUpdate, onDelete, onImport, onClose
+}) => {
+  const [filter, setFilter] = useState('');
+  const [tag, setTag] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const tags = libraryTags(entries);
+  const shown = entries
+    .filter(entry => (!tag || entry.tags.includes(tag)) && matchesFilter(entry, filter))
+    .sort((a, b) => a.reference.title.localeCompare(b.reference.title));
+
+  const startEdit = (entry: LibraryEntry) => {
+    setEditingId(entry.id);
+    setDraft(toDraft(entry));
+  };
+
+  const saveEdit = (entry: LibraryEntry) => {
+    if (!draft || !draft.title.trim()) return;
+    onUpdate(fromDraft(entry, draft));
+    setEditingId(null);
+    setDraft(null);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      setNotice({ text: await onImport(file), isError: false });
+    } catch (err) {
+      setNotice({ text: err instanceof Error ? err.message : `Could not import ${file.name}.`, isError: true });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const field = (key: keyof Draft, label: string, multiline = false) => (
+    <label className="block">
+      <span className="block text-[10px] font-medium text-slate-500 mb-0.5">{label}</span>
+      {multiline ? (
+        <textarea rows={3} value={draft![key]} onChange={e => setDraft({ ...draft!, [key]: e.target.value })} className={inputClass} />
+      ) : (
+        <input type="text" value={draft![key]} onChange={e => setDraft({ ...draft!, [key]: e.target.value })} className={inputClass} />
+      )}
+    </label>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4 animate-in fade-in duration-200"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col overflow-hidden border border-slate-200"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div className="min-w-0">
+            <h2 className="text-lg font-bold text-slate-800">Reference Library</h2>
+            <p className="text-xs text-slate-500 truncate">
+              {activeClaim
+                ? <>Pinning to: <span className="font-serif italic">"{activeClaim}"</span></>
+                : 'Select a highlight in the editor to pin references to it.'}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isImporting}
+              className="text-xs px-3 py-1.5 rounded bg-white border border-slate-200 shadow-sm hover:bg-indigo-50 text-indigo-600 font-medium disabled:opacity-50"
+              title="Import a BibTeX (.bib) or CSL-JSON (.json) export from Zotero, JabRef or Mendeley"
+            >
+              {isImporting ? 'Importing…' : 'Import .bib / CSL-JSON'}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={LIBRARY_FILE_EXTENSIONS.join(',')}
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <button
+              onClick={onClose}
+              className="text-slate-400 hover:text-slate-600 hover:bg-slate-100 p-1 rounded-full transition-colors"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="px-6 py-3 border-b border-slate-100 space-y-2">
+          {notice && (
+            <p className={`text-xs p-2 rounded border ${notice.isError ? 'bg-red-50 border-red-200 text-red-600' : 'bg-emerald-50 border-emerald-200 text-emerald-700'}`}>
+              {notice.text}
+            </p>
+          )}
+          <input
+            type="text"
+            value={filter}
+            onChange={e => setFilter(e.target.value)}
+            placeholder="Filter by title, author, venue, DOI or tag"
+            className="w-full p-2 text-sm border border-slate-300 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {tags.map(t => (
+                <button
+                  key={t}
+                  onClick={() => setTag(tag === t ? null : t)}
+                  className={`text-[10px] px-2 py-0.5 rounded-full border ${tag === t ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200 hover:border-indigo-300'}`}
+                >
+                  {t}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {shown.length === 0 && (
+            <p className="px-6 py-10 text-sm text-slate-400 text-center">
+              {entries.length === 0 ? 'The library is empty. Accept a search result or import a .bib file.' : 'No references match.'}
+            </p>
+          )}
+          {shown.slice(0, MAX_SHOWN).map(entry => {
+            const { reference } = entry;
+            const isPinned = activePinned.includes(entry.id);
+            const count = pinCounts[entry.id] || 0;
+
+            if (editingId === entry.id && draft) {
+              return (
+                <div key={entry.id} className="px-6 py-4 border-b border-slate-100 bg-slate-50 space-y-2">
+                  {field('title', 'Title')}
+                  {field('authors', 'Authors (one per line)', true)}
+                  <div className="grid grid-cols-2 gap-2">
+                    {field('year', 'Year')}
+                    {field('publication', 'Publication')}
+                    {field('doi', 'DOI')}
+                    {field('url', 'URL')}
+                  </div>
+                  {field('tags', 'Tags (comma-separated)')}
+                  <div className="flex justify-end gap-2 pt-1">
+                    <button onClick={() => setEditingId(null)} className="text-xs px-3 py-1 rounded text-slate-500 hover:bg-slate-100">Cancel</button>
+                    <button
+                      onClick={() => saveEdit(entry)}
+                      disabled={!draft.title.trim()}
+                      className="text-xs px-3 py-1 rounded bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+                    >
+                      Save
+                    </button>
+                  </div>
+                </div>
+              );
+            }
+
+            return (
+              <div key={entry.id} className="px-6 py-3 border-b border-slate-50 flex items-start justify-between gap-3 hover:bg-slate-50">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-indigo-900 leading-snug">{reference.title}</p>
+                  <p className="text-[11px] text-slate-500">
+                    {reference.authors.slice(0, 3).join(', ')}{reference.authors.length > 3 ? ' et al.' : ''} &bull; {reference.year} &bull; {reference.publication}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-1 mt-1">
+                    {entry.tags.map(t => (
+                      <span key={t} className="text-[10px] px-1.5 py-0.5 rounded bg-slate-100 text-slate-600">{t}</span>
+                    ))}
+                    <span className="text-[10px] text-slate-400">
+                      {count > 0 ? `Pinned to ${count} ${count === 1 ? 'highlight' : 'highlights'}` : 'Not pinned in this manuscript'}
+                    </span>
+                  </div>
+                </div>
+                <div className="flex flex-col items-end gap-1 shrink-0">
+                  {activeClaim && (
+                    <button
+                      onClick={() => onTogglePin(entry.id)}
+                      className={`text-xs font-medium ${isPinned ? 'text-emerald-600 hover:text-red-500' : 'text-indigo-600 hover:text-indigo-700'}`}
+                    >
+                      {isPinned ? 'Unpin' : 'Pin here'}
+                    </button>
+                  )}
+                  <button onClick={() => startEdit(entry)} className="text-xs text-slate-400 hover:text-slate-600">Edit</button>
+                  <button onClick={() => onDelete(entry.id)} className="text-xs text-slate-400 hover:text-red-500">Remove</button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="px-6 py-3 border-t border-slate-100 bg-slate-50/50">
+          {shown.length > MAX_SHOWN && (
+            <span className="block text-xs text-amber-700 mb-1">Showing {MAX_SHOWN} of {shown.length} matches; use the filter to find others.</span>
+          )}
+          <span className="text-xs text-slate-500">
+            {entries.length} {entries.length === 1 ? 'reference' : 'references'} · pinned references replace a highlight's search results in the export
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { ProviderSettings, ReferenceProvider } from '../types';
+import { describeSearchError } from '../services/requestControl';
+
+interface ModelSelectorProps {
+  provider: ReferenceProvider;
+  settings: ProviderSettings;
+  value: string;
+  onChange: (model: string) => void;
+}
+
+const fieldClass = "w-full p-2 text-sm border border-slate-300 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none bg-white";
+
+// A fixed list for providers with known models; for servers that report their own, a free-text field
+// with suggestions and a button to load what the server has
+export const ModelSelector: React.FC<ModelSelectorProps> = ({ provider, settings, value, onChange }) => {
+  const [serverModels, setServerModels] = useState<Record<string, string[]>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const models = provider.models || [];
+  if (!provider.listModels && models.length === 0) return null;
+
+  const listId = `models-${provider.id}`;
+  const loaded = serverModels[provider.id] || [];
+
+  const handleLoad = async () => {
+    if (!provider.listModels) return;
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      const ids = await provider.listModels(settings);
+      setServerModels(prev => ({ ...prev, [provider.id]: ids }));
+      if (ids.length === 0) setLoadError('The server reported no models.');
+      else if (!ids.includes(value)) onChange(ids[0]);
+    } catch (error) {
+      setLoadError(describeSearchError(error));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-xs font-medium text-slate-600 mb-1.5">AI Model</label>
+      {provider.listModels ? (
+        <>
+          <div className="flex gap-1">
+            <input
+              type="text"
+              list={listId}
+              value={value}
+              onChange={e => onChange(e.target.value)}
+              placeholder={provider.defaultModel}
+              className={`${fieldClass} transition-shadow`}
+            />
+            <button
+              onClick={handleLoad}
+              disabled={isLoading}
+              className="shrink-0 text-xs px-2 rounded-md border border-slate-300 text-indigo-600 hover:bg-indigo-50 font-medium disabled:opacity-50"
+              title="Ask the server which models it has"
+            >
+              {isLoading ? 'Loading…' : 'Load'}
+            </button>
+          </div>
+          <datalist id={listId}>
+            {loaded.map(id => <option key={id} value={id} />)}
+            {models.filter(m => !loaded.includes(m.id)).map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+          </datalist>
+          {loadError
+            ? <p className="text-[10px] text-red-500 mt-1">{loadError}</p>
+            : <p className="text-[10px] text-slate-400 mt-1">Type a model name or load the list from the server.</p>}
+        </>
+      ) : (
+        <div className="relative">
+          <select
+            value={value}
+            onChange={e => onChange(e.target.value)}
+            className={`${fieldClass} appearance-none`}
+          >
+            {models.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+          </select>
+          <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-slate-500">
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" /></svg>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { PreferenceProfile } from '../types';
+import { EMPTY_PROFILE, isEmptyProfile } from '../services/preferenceProfile';
+import { downloadFile } from '../services/exportService';
+
+interface PreferenceProfilePanelProps {
+  profile: PreferenceProfile;
+  onChange: (profile: PreferenceProfile) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full p-1.5 text-xs border border-slate-300 rounded focus:ring-2 focus:ring-indigo-500 outline-none";
+
+// Removable chips with a box to add more
+const ChipList: React.FC<{
+  items: string[];
+  placeholder: string;
+  onChange: (items: string[]) => void;
+}> = ({ items, placeholder, onChange }) => {
+  const [draft, setDraft] = useState('');
+
+  const add = () => {
+    const value = draft.trim();
+    if (value && !items.some(item => item.toLowerCase() === value.toLowerCase())) onChange([...items, value]);
+    setDraft('');
+  };
+
+  return (
+    <div className="space-y-1.5">
+      {items.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {items.map(item => (
+            <span key={item} className="inline-flex items-center gap-1 text-[11px] pl-2 pr-1 py-0.5 rounded-full bg-slate-100 text-slate-700 border border-slate-200">
+              {item}
+              <button
+                onClick={() => onChange(items.filter(i => i !== item))}
+                className="text-slate-400 hover:text-red-500 px-0.5"
+                title="Remove"
+              >
+                &times;
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <input
+        type="text"
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onKeyDown={e => { if (e.key === 'Enter') add(); }}
+        onBlur={add}
+        placeholder={placeholder}
+        className={inputClass}
+      />
+    </div>
+  );
+};
+
+const parseOptional = (value: string): number | undefined => {
+  const parsed = parseInt(value);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+export const PreferenceProfilePanel: React.FC<PreferenceProfilePanelProps> = ({ profile, onChange, onClose }) => {
+  const update = (changes: Partial<PreferenceProfile>) => onChange({ ...profile, ...changes, updatedAt: Date.now() });
+
+  const handleExport = () => {
+    downloadFile(JSON.stringify(profile, null, 2), 'sciref_preferences.json', 'application/json');
+  };
+
+  const section = (title: string, hint: string, children: React.ReactNode) => (
+    <div className="px-6 py-3 border-b border-slate-50">
+      <h3 className="text-xs font-semibold text-slate-700">{title}</h3>
+      <p className="text-[10px] text-slate-400 mb-1.5">{hint}</p>
+      {children}
+    </div>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4 animate-in fade-in duration-200"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-xl max-h-[85vh] flex flex-col overflow-hidden border border-slate-200"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800">Learned Preferences</h2>
+            <p className="text-xs text-slate-500">
+              Built from your feedback on results and applied to every search, in every manuscript.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 hover:bg-slate-100 p-1 rounded-full transition-colors"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {section('Blocked sources', 'From "unwanted source". Results from these journals are never shown.',
+            <ChipList
+              items={profile.blockedVenues}
+              placeholder="Add a journal or conference and press Enter"
+              onChange={blockedVenues => update({ blockedVenues })}
+            />
+          )}
+
+          <div className="grid grid-cols-2">
+            {section('Minimum year', 'Learned from three or more "not new" papers. A hint to the AI, not a filter.',
+              <input
+                type="number"
+                value={profile.minYear ?? ''}
+                onChange={e => update({ minYear: parseOptional(e.target.value) })}
+                placeholder="Any"
+                className={inputClass}
+              />
+            )}
+            {section('Minimum citations', 'Learned from three or more "not highly cited" papers. A hint to the AI, not a filter.',
+              <input
+                type="number"
+                min={0}
+                value={profile.minCitations ?? ''}
+                onChange={e => update({ minCitations: parseOptional(e.target.value) })}
+                placeholder="Any"
+                className={inputClass}
+              />
+            )}
+          </div>
+
+          {section('Topics to avoid', 'Words of papers marked "not relevant" at different highlights, other than the claims\' own. Passed to the AI as a hint.',
+            <ChipList
+              items={profile.avoidTopics}
+              placeholder="Add a topic and press Enter"
+              onChange={avoidTopics => update({ avoidTopics })}
+            />
+          )}
+
+          {section('Papers you liked', 'Kept (👍) and starred (★) results, described to the AI as examples of what you want. Stars stay; other approvals make way for newer ones.',
+            profile.likedPapers.length === 0 ? (
+              <p className="text-xs text-slate-400 italic">None yet.</p>
+            ) : (
+              <ul className="space-y-1">
+                {profile.likedPapers.map(paper => (
+                  <li key={paper.title} className="flex items-start justify-between gap-2 text-xs text-slate-600">
+                    <span className="min-w-0">
+                      {paper.favorite && <span className="text-amber-500 mr-1" title="Favorite">★</span>}
+                      {paper.title} <span className="text-slate-400">({paper.publication}, {paper.year})</span>
+                    </span>
+                    <button
+                      onClick={() => update({ likedPapers: profile.likedPapers.filter(p => p !== paper) })}
+                      className="text-slate-400 hover:text-red-500 shrink-0"
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )
+          )}
+
+          {section('Papers to avoid', 'Marked "not relevant"; they are not suggested again.',
+            profile.avoidTitles.length === 0 ? (
+              <p className="text-xs text-slate-400 italic">None yet.</p>
+            ) : (
+              <ul className="space-y-1">
+                {profile.avoidTitles.map(title => (
+                  <li key={title} className="flex items-start justify-between gap-2 text-xs text-slate-600">
+                    <span className="min-w-0">{title}</span>
+                    <button
+                      onClick={() => update({ avoidTitles: profile.avoidTitles.filter(t => t !== title) })}
+                      className="text-slate-400 hover:text-red-500 shrink-0"
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )
+          )}
+        </div>
+
+        <div className="px-6 py-3 border-t border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <span className="text-xs text-slate-500">
+            Learned from {profile.feedbackCount} {profile.feedbackCount === 1 ? 'disapproval' : 'disapprovals'}
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={handleExport}
+              className="text-xs px-3 py-1.5 rounded bg-white border border-slate-200 shadow-sm hover:bg-indigo-50 text-indigo-600 font-medium"
+            >
+              Export
+            </button>
+            <button
+              onClick={() => onChange(EMPTY_PROFILE)}
+              disabled={isEmptyProfile(profile) && profile.feedbackCount === 0}
+              className="text-xs px-3 py-1.5 rounded bg-white border border-slate-200 shadow-sm hover:bg-red-50 hover:border-red-100 hover:text-red-600 text-slate-600 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Reset
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,13 +1,35 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Reference, DisapprovalReason } from '../types';
+import { Reference, DisapprovalReason, VerificationStatus, CustomReason, SupportStance, SearchGrounding } from '../types';
+import { MAX_REASON_LENGTH } from '../services/customReasons';
+
+const SUPPORT_BADGES: Record<SupportStance, { label: string; className: string }> = {
+  [SupportStance.SUPPORTS]: { label: 'Supports', className: 'bg-emerald-100 text-emerald-800 border-emerald-200' },
+  [SupportStance.PARTIAL]: { label: 'Partial support', className: 'bg-yellow-50 text-yellow-800 border-yellow-200' },
+  [SupportStance.CONTRADICTS]: { label: 'Contradicts', className: 'bg-red-50 text-red-700 border-red-200' },
+  [SupportStance.UNRELATED]: { label: 'Unrelated', className: 'bg-slate-100 text-slate-600 border-slate-200' },
+};
 
 interface ReferenceCardProps {
   reference: Reference;
-  onDisapprove: (reason: DisapprovalReason) => void;
+  onDisapprove: (reason: DisapprovalReason, note?: string) => void; // `note` is set for free-text and custom reasons
+  customReasons?: CustomReason[];
+  onSaveReason?: (label: string) => void;
+  accepted?: boolean; // In the library and pinned to this highlight
+  onAccept?: () => void;
+  approved?: boolean; // Kept: never replaced, and a positive example for later searches
+  onApprove?: () => void;
+  favorite?: boolean;
+  onFavorite?: () => void;
+  onMoreLikeThis?: () => void;
+  grounding?: SearchGrounding; // The searches behind the whole result list
 }
 
-export const ReferenceCard: React.FC<ReferenceCardProps> = ({ reference, onDisapprove }) => {
+export const ReferenceCard: React.FC<ReferenceCardProps> = ({
+  reference, onDisapprove, customReasons = [], onSaveReason, accepted, onAccept, approved, onApprove, favorite, onFavorite, onMoreLikeThis, grounding
+}) => {
   const [showMenu, setShowMenu] = useState(false);
+  const [otherText, setOtherText] = useState('');
+  const [saveOther, setSaveOther] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
 
   // Close menu on click outside
@@ -21,13 +43,34 @@ export const ReferenceCard: React.FC<ReferenceCardProps> = ({ reference, onDisap
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  const handleReasonSelect = (reason: DisapprovalReason) => {
-    onDisapprove(reason);
+  const handleReasonSelect = (reason: DisapprovalReason, note?: string) => {
+    onDisapprove(reason, note);
     setShowMenu(false);
   };
 
+  const handleOtherSubmit = () => {
+    const text = otherText.trim();
+    if (!text) return;
+    if (saveOther) onSaveReason?.(text);
+    handleReasonSelect(DisapprovalReason.OTHER, text);
+    setOtherText('');
+    setSaveOther(false);
+  };
+
+  const verification = reference.verification;
+  const support = reference.support;
+  const groundingSources = reference.groundingSources;
+  const isUnresolved = verification?.status === VerificationStatus.UNRESOLVED;
+
   return (
-    <div className="bg-white p-4 rounded-lg border border-slate-200 shadow-sm hover:shadow-md transition-shadow mb-4 relative group">
+    <div className={`bg-white p-4 rounded-lg border shadow-sm hover:shadow-md transition-shadow mb-4 relative group ${isUnresolved ? 'border-amber-300 border-dashed' : 'border-slate-200'}`}>
+      {isUnresolved && (
+        <div className="mb-2 p-2 bg-amber-50 border border-amber-200 rounded text-[11px] text-amber-800">
+          <strong>Unresolved:</strong> this paper could not be found in the DOI registry. Check that it exists before citing it.
+          {verification?.note && <span className="block text-amber-600 mt-0.5">{verification.note}</span>}
+        </div>
+      )}
+
       <div className="flex justify-between items-start gap-2 mb-1">
         <h3 className="text-md font-bold text-indigo-900 leading-tight pr-6">
           <a href={reference.url} target="_blank" rel="noopener noreferrer" className="hover:underline hover:text-indigo-700">
@@ -36,11 +79,45 @@ export const ReferenceCard: React.FC<ReferenceCardProps> = ({ reference, onDisap
         </h3>
         
         {/* Absolute positioned Action Menu */}
-        <div className="relative shrink-0" ref={menuRef}>
+        <div className="relative shrink-0 flex items-center" ref={menuRef}>
+          {onFavorite && (
+            <button
+              onClick={onFavorite}
+              className={`p-1 rounded-full transition-colors ${favorite ? 'text-amber-500 hover:bg-amber-50' : 'text-slate-400 hover:text-amber-500 hover:bg-slate-100'}`}
+              title={favorite ? 'Favorite: always used as an example of what you want. Click to unstar.' : 'Favorite: always use this paper as an example of what you want'}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill={favorite ? 'currentColor' : 'none'} stroke="currentColor" strokeWidth={1.5} className="w-5 h-5">
+                <path strokeLinejoin="round" d="M10 2.5l2.3 4.7 5.2.8-3.8 3.7.9 5.2L10 14.4l-4.6 2.5.9-5.2-3.8-3.7 5.2-.8L10 2.5z" />
+              </svg>
+            </button>
+          )}
+          {onApprove && (
+            <button
+              onClick={onApprove}
+              className={`p-1 rounded-full transition-colors ${approved ? 'text-indigo-600 bg-indigo-50 hover:bg-indigo-100' : 'text-slate-400 hover:text-indigo-600 hover:bg-slate-100'}`}
+              title={approved ? 'Kept: this result stays and guides later searches. Click to release it.' : 'Keep: never replace this result, and find more like it in later searches'}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill={approved ? 'currentColor' : 'none'} stroke="currentColor" strokeWidth={1.5} className="w-5 h-5">
+                <path strokeLinejoin="round" d="M6 9l3.2-6a1.8 1.8 0 012.3 2.1L10.8 8H16a1.5 1.5 0 011.5 1.8l-1.2 6A1.5 1.5 0 0114.8 17H6V9zM6 9H3.5v8H6" />
+              </svg>
+            </button>
+          )}
+          {onAccept && (
+            <button
+              onClick={onAccept}
+              className={`p-1 rounded-full transition-colors ${accepted ? 'text-emerald-600 bg-emerald-50 hover:bg-emerald-100' : 'text-slate-400 hover:text-emerald-600 hover:bg-slate-100'}`}
+              title={accepted ? 'Accepted: in your library and cited here. Click to unpin.' : 'Accept: add to your library and cite it here'}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-5 h-5">
+                <path fillRule="evenodd" d="M16.704 4.153a.75.75 0 01.143 1.052l-8 10.5a.75.75 0 01-1.127.075l-4.5-4.5a.75.75 0 011.06-1.06l3.894 3.893 7.48-9.817a.75.75 0 011.05-.143z" clipRule="evenodd" />
+              </svg>
+            </button>
+          )}
           <button 
             onClick={() => setShowMenu(!showMenu)}
-            className="text-slate-400 hover:text-red-500 p-1 rounded-full hover:bg-slate-100 transition-colors"
-            title="Remove/Replace"
+            disabled={approved}
+            className="text-slate-400 hover:text-red-500 p-1 rounded-full hover:bg-slate-100 transition-colors disabled:opacity-30 disabled:hover:text-slate-400 disabled:hover:bg-transparent"
+            title={approved ? 'Kept results are not replaced. Release it first.' : 'Remove/Replace'}
           >
             <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-5 h-5">
                <path d="M6.28 5.22a.75.75 0 00-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 101.06 1.06L10 11.06l3.72 3.72a.75.75 0 101.06-1.06L11.06 10l3.72-3.72a.75.75 0 00-1.06-1.06L10 8.94 6.28 5.22z" />
@@ -48,7 +125,7 @@ export const ReferenceCard: React.FC<ReferenceCardProps> = ({ reference, onDisap
           </button>
 
           {showMenu && (
-            <div className="absolute right-0 top-6 z-20 w-40 bg-white border border-slate-200 rounded-md shadow-lg overflow-hidden animate-in fade-in zoom-in-95 duration-100">
+            <div className="absolute right-0 top-6 z-20 w-56 bg-white border border-slate-200 rounded-md shadow-lg overflow-hidden animate-in fade-in zoom-in-95 duration-100">
               <div className="px-3 py-2 bg-slate-50 text-xs font-semibold text-slate-500 border-b border-slate-100">
                 Reason for removal:
               </div>
@@ -64,12 +141,66 @@ export const ReferenceCard: React.FC<ReferenceCardProps> = ({ reference, onDisap
               <button onClick={() => handleReasonSelect(DisapprovalReason.UNWANTED_SOURCE)} className="w-full text-left px-3 py-2 text-xs text-slate-700 hover:bg-red-50 hover:text-red-700 flex items-center gap-2">
                  <span>Unwanted source</span>
               </button>
+              {customReasons.map(r => (
+                <button key={r.id} onClick={() => handleReasonSelect(DisapprovalReason.OTHER, r.label)} className="w-full text-left px-3 py-2 text-xs text-slate-700 hover:bg-red-50 hover:text-red-700 flex items-center gap-2">
+                   <span className="truncate" title={r.label}>{r.label}</span>
+                </button>
+              ))}
+              <div className="px-3 py-2 border-t border-slate-100 space-y-1.5">
+                <input
+                  type="text"
+                  value={otherText}
+                  maxLength={MAX_REASON_LENGTH}
+                  onChange={e => setOtherText(e.target.value)}
+                  onKeyDown={e => { if (e.key === 'Enter') handleOtherSubmit(); }}
+                  placeholder="Other, e.g. wrong organism"
+                  className="w-full p-1.5 text-xs border border-slate-300 rounded focus:ring-2 focus:ring-red-300 outline-none"
+                />
+                <div className="flex items-center justify-between gap-2">
+                  {onSaveReason ? (
+                    <label className="text-[10px] text-slate-500 flex items-center gap-1 cursor-pointer">
+                      <input type="checkbox" checked={saveOther} onChange={e => setSaveOther(e.target.checked)} className="h-3 w-3" />
+                      Save for reuse
+                    </label>
+                  ) : <span />}
+                  <button
+                    onClick={handleOtherSubmit}
+                    disabled={!otherText.trim()}
+                    className="text-[10px] px-2 py-0.5 rounded bg-red-50 text-red-700 border border-red-100 hover:bg-red-100 disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
             </div>
           )}
         </div>
       </div>
       
       <div className="flex flex-wrap gap-2 mb-2 items-center">
+        {support && (
+            <span
+              className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium border ${SUPPORT_BADGES[support.stance].className}`}
+              title={`How well this paper backs the highlighted claim (confidence ${Math.round(support.confidence * 100)}%)`}
+            >
+                {SUPPORT_BADGES[support.stance].label} · {Math.round(support.confidence * 100)}%
+            </span>
+        )}
+        {verification?.status === VerificationStatus.VERIFIED && (
+            <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-emerald-50 text-emerald-700 border border-emerald-200" title="Title, year, venue and DOI match the DOI registry">
+                ✓ Verified
+            </span>
+        )}
+        {verification?.status === VerificationStatus.CORRECTED && (
+            <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-sky-50 text-sky-700 border border-sky-200" title={`Corrected from the DOI registry: ${(verification.correctedFields || []).join(', ')}`}>
+                ✎ Corrected
+            </span>
+        )}
+        {isUnresolved && (
+            <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800 border border-amber-200" title="Not found in the DOI registry">
+                ⚠ Unresolved
+            </span>
+        )}
         {reference.citationCount !== undefined && (
             <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800 border border-green-200" title="Approximate Citation Count">
                 Cited by {reference.citationCount}
@@ -77,6 +208,10 @@ export const ReferenceCard: React.FC<ReferenceCardProps> = ({ reference, onDisap
         )}
         <div className="text-xs text-slate-500 font-medium">
             {reference.authors.slice(0, 3).join(', ')}{reference.authors.length > 3 ? ' et al.' : ''} &bull; {reference.year} &bull; {reference.publication}
+            {reference.doi && <> &bull; <span className="font-mono">doi:{reference.doi}</span></>}
+            {reference.preprintUrl && (
+              <> &bull; <a href={reference.preprintUrl} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:underline" title="Preprint of this paper, merged into the published version">Preprint</a></>
+            )}
         </div>
       </div>
       
@@ -88,7 +223,64 @@ export const ReferenceCard: React.FC<ReferenceCardProps> = ({ reference, onDisap
       <div className="bg-indigo-50 p-2 rounded text-xs border border-indigo-100">
         <span className="font-bold text-indigo-800">Relevance: </span>
         <span className="text-indigo-700">{reference.relevance}</span>
+        {support?.quote && (
+          <blockquote className="mt-1.5 pl-2 border-l-2 border-indigo-200 text-slate-600 italic">"{support.quote}"</blockquote>
+        )}
       </div>
+
+      {groundingSources && (
+        <details className="mt-2 text-xs text-slate-600">
+          <summary className="cursor-pointer select-none text-slate-500 hover:text-indigo-600">Where did this come from?</summary>
+          <div className="mt-1.5 pl-2 border-l-2 border-slate-100 space-y-2">
+            {groundingSources.length > 0 ? (
+              <div>
+                <span className="font-semibold text-slate-700">Backed by:</span>
+                <ul className="mt-0.5 space-y-0.5">
+                  {groundingSources.map(source => (
+                    <li key={source.uri} className="flex justify-between gap-2">
+                      <a href={source.uri} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:underline truncate">
+                        {source.title}
+                      </a>
+                      {source.confidence !== undefined && (
+                        <span className="text-slate-400 shrink-0">{Math.round(source.confidence * 100)}%</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : (
+              <p className="text-amber-700">No search result was tied to this paper. Check it with extra care.</p>
+            )}
+            {grounding && grounding.queries.length > 0 && (
+              <div>
+                <span className="font-semibold text-slate-700">Searches run:</span>
+                <div className="mt-0.5 flex flex-wrap gap-1">
+                  {grounding.queries.map(query => (
+                    <span key={query} className="px-1.5 py-0.5 rounded bg-slate-100 border border-slate-200 text-slate-600">{query}</span>
+                  ))}
+                </div>
+              </div>
+            )}
+            {grounding && (
+              <p className="text-slate-400">
+                {grounding.sources.length} {grounding.sources.length === 1 ? 'page' : 'pages'} consulted for this search
+              </p>
+            )}
+          </div>
+        </details>
+      )}
+
+      {onMoreLikeThis && (
+        <div className="mt-2 flex justify-end">
+          <button
+            onClick={onMoreLikeThis}
+            className="text-xs text-indigo-600 hover:text-indigo-700 font-medium"
+            title="Keep this result and replace the others with papers like it"
+          >
+            More like this →
+          </button>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,117 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { SessionMeta } from '../services/sessionStore';
+
+interface SessionsMenuProps {
+  currentSessionId: string | null;
+  // Read lazily so the list is fresh every time the menu opens
+  getSessions: () => SessionMeta[];
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onDelete: (id: string) => void;
+  onOpenFile: (file: File) => void;
+  fileAccept: string;
+}
+
+export const SessionsMenu: React.FC<SessionsMenuProps> = ({ currentSessionId, getSessions, onOpen, onNew, onDelete, onOpenFile, fileAccept }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [sessions, setSessions] = useState<SessionMeta[]>([]);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Close menu on click outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const toggle = () => {
+    if (!isOpen) setSessions(getSessions());
+    setIsOpen(!isOpen);
+  };
+
+  const handleDelete = (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    onDelete(id);
+    setSessions(getSessions());
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onOpenFile(file);
+    // Allow picking the same file again
+    e.target.value = '';
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={toggle}
+        className="text-xs flex items-center gap-1 text-slate-500 hover:text-indigo-600 font-medium transition-colors px-2 py-1 hover:bg-slate-50 rounded"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        Recent
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-8 z-30 w-72 bg-white border border-slate-200 rounded-md shadow-lg overflow-hidden animate-in fade-in zoom-in-95 duration-100">
+          <div className="px-3 py-2 bg-slate-50 text-xs font-semibold text-slate-500 border-b border-slate-100 flex justify-between items-center">
+            <span>Recent manuscripts</span>
+            <div className="flex gap-3">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="text-indigo-600 hover:text-indigo-700 font-semibold"
+              >
+                Open file…
+              </button>
+              <button
+                onClick={() => { onNew(); setIsOpen(false); }}
+                className="text-indigo-600 hover:text-indigo-700 font-semibold"
+              >
+                + New
+              </button>
+            </div>
+            <input ref={fileInputRef} type="file" accept={fileAccept} onChange={handleFileChange} className="hidden" />
+          </div>
+          <div className="max-h-72 overflow-y-auto">
+            {sessions.length === 0 && (
+              <p className="px-3 py-4 text-xs text-slate-400 text-center">No saved manuscripts yet.</p>
+            )}
+            {sessions.map(session => (
+              <div
+                key={session.id}
+                onClick={() => { onOpen(session.id); setIsOpen(false); }}
+                className={`px-3 py-2 cursor-pointer hover:bg-indigo-50 flex items-start justify-between gap-2 border-b border-slate-50 ${session.id === currentSessionId ? 'bg-indigo-50/60' : ''}`}
+              >
+                <div className="min-w-0">
+                  <span className="block text-xs font-medium text-slate-700 truncate">{session.title}</span>
+                  <span className="block text-[10px] text-slate-400">
+                    {session.id === currentSessionId ? 'Open now · ' : ''}{new Date(session.updatedAt).toLocaleString()}
+                  </span>
+                </div>
+                {session.id !== currentSessionId && (
+                  <button
+                    onClick={(e) => handleDelete(e, session.id)}
+                    className="text-slate-300 hover:text-red-500 shrink-0"
+                    title="Delete this manuscript"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                      <path d="M6.28 5.22a.75.75 0 00-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 101.06 1.06L10 11.06l3.72 3.72a.75.75 0 101.06-1.06L11.06 10l3.72-3.72a.75.75 0 00-1.06-1.06L10 8.94 6.28 5.22z" />
+                    </svg>
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+export interface AuthorName {
+  given: string;
+  family: string;
+}
+
+// The search prompt asks for "First Author, etc." so the list often ends with a placeholder
+const PLACEHOLDERS = ['etc', 'etc.', 'et al', 'et al.', 'others', 'and others'];
+
+export const isAuthorPlaceholder = (name: string): boolean =>
+  PLACEHOLDERS.includes(name.trim().toLowerCase());
+
+// Whether the author list was cut short by the model
+export const hasTruncatedAuthors = (authors: string[]): boolean =>
+  authors.some(isAuthorPlaceholder);
+
+// Handles "Given Family", "Family, Given" and single-token names
+export const parseAuthorName = (name: string): AuthorName => {
+  const clean = name.replace(/\s+/g, ' ').trim();
+  if (clean.includes(',')) {
+    const [family, ...rest] = clean.split(',');
+    return { family: family.trim(), given: rest.join(',').trim() };
+  }
+  const parts = clean.split(' ');
+  const family = parts.pop() || '';
+  return { family, given: parts.join(' ') };
+};
+
+export const realAuthors = (authors: string[]): AuthorName[] =>
+  authors.filter(a => a && !isAuthorPlaceholder(a)).map(parseAuthorName);
+
+// "Benjamin J." -> "B. J.", "Jean-Luc" -> "J.-L."
+export const initials = (given: string, separator = ' '): string =>
+  given
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(part => part.split('-').map(p => `${p.charAt(0).toUpperCase()}.`).join('-'))
+    .join(separator);
@@ -0,0 +1,133 @@
+import { Reference } from "../types";
+import { extractDoi } from "./referenceIdentity";
+import { hasTruncatedAuthors, realAuthors } from "./authorNames";
+
+// Words skipped when picking the title word of a citation key
+const KEY_STOP_WORDS = new Set(['a', 'an', 'the', 'on', 'of', 'in', 'for', 'and', 'to', 'with', 'from', 'by', 'at', 'as', 'is']);
+
+const asciiWord = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const isConferencePaper = (ref: Reference): boolean =>
+  /conference|proceedings|symposium|workshop/i.test(ref.publication);
+
+const baseCitationKey = (ref: Reference): string => {
+  const firstAuthor = realAuthors(ref.authors)[0];
+  const family = firstAuthor ? asciiWord(firstAuthor.family) : '';
+  const year = (ref.year.match(/\d{4}/) || [''])[0];
+  const titleWord = ref.title
+    .split(/\s+/)
+    .map(asciiWord)
+    .find(w => w && !KEY_STOP_WORDS.has(w)) || '';
+  return `${family || 'anon'}${year}${titleWord}`;
+};
+
+// Keys are derived only from the reference fields (e.g. "burger2020mobile"), so re-exporting the
+// same bibliography gives the same keys. Clashes get a/b/c suffixes in bibliography order.
+export const generateCitationKeys = (references: Reference[]): string[] => {
+  const bases = references.map(baseCitationKey);
+  const counts = new Map<string, number>();
+  bases.forEach(b => counts.set(b, (counts.get(b) || 0) + 1));
+
+  const used = new Map<string, number>();
+  return bases.map(base => {
+    if (counts.get(base) === 1) return base;
+    const n = used.get(base) || 0;
+    used.set(base, n + 1);
+    return `${base}${String.fromCharCode(97 + (n % 26))}${n >= 26 ? Math.floor(n / 26) : ''}`;
+  });
+};
+
+const LATEX_SPECIALS: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '{': '\\{',
+  '}': '\\}',
+  '$': '\\$',
+  '&': '\\&',
+  '%': '\\%',
+  '#': '\\#',
+  '_': '\\_',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}',
+};
+
+export const escapeLatex = (text: string): string =>
+  text.replace(/[\\{}$&%#_~^]/g, ch => LATEX_SPECIALS[ch]);
+
+const yearOf = (ref: Reference): string => (ref.year.match(/\d{4}/) || [ref.year])[0];
+
+const doiOf = (ref: Reference): string | undefined => ref.doi || extractDoi(ref.url);
+
+// `keys` overrides the generated keys, e.g. to keep the keys an imported draft already cites
+export const toBibTeX = (references: Reference[], keys: string[] = generateCitationKeys(references)): string => {
+
+  return references.map((ref, i) => {
+    const authors = realAuthors(ref.authors).map(a => a.given ? `${a.family}, ${a.given}` : a.family);
+    if (hasTruncatedAuthors(ref.authors)) authors.push('others');
+
+    const conference = isConferencePaper(ref);
+    const fields: [string, string | undefined][] = [
+      // Double braces keep BibTeX styles from changing the title's capitalization
+      ['title', `{${escapeLatex(ref.title)}}`],
+      ['author', authors.length > 0 ? escapeLatex(authors.join(' and ')) : undefined],
+      [conference ? 'booktitle' : 'journal', ref.publication ? escapeLatex(ref.publication) : undefined],
+      ['year', yearOf(ref)],
+      ['doi', doiOf(ref)],
+      ['url', ref.url || undefined],
+    ];
+
+    const body = fields
+      .filter(([, value]) => value)
+      .map(([name, value]) => `  ${name} = {${value}}`)
+      .join(',\n');
+
+    return `@${conference ? 'inproceedings' : 'article'}{${keys[i]},\n${body}\n}`;
+  }).join('\n\n') + '\n';
+};
+
+export const toRIS = (references: Reference[]): string => {
+  const lines: string[] = [];
+  const tag = (name: string, value?: string) => {
+    if (value) lines.push(`${name}  - ${value.replace(/\s+/g, ' ').trim()}`);
+  };
+
+  const keys = generateCitationKeys(references);
+  references.forEach((ref, i) => {
+    const conference = isConferencePaper(ref);
+    tag('TY', conference ? 'CPAPER' : 'JOUR');
+    tag('ID', keys[i]);
+    tag('TI', ref.title);
+    realAuthors(ref.authors).forEach(a => tag('AU', a.given ? `${a.family}, ${a.given}` : a.family));
+    tag(conference ? 'T2' : 'JO', ref.publication);
+    tag('PY', yearOf(ref));
+    tag('DO', doiOf(ref));
+    tag('UR', ref.url);
+    tag('AB', ref.summary);
+    lines.push('ER  - ', '');
+  });
+
+  // RIS readers expect CRLF line endings
+  return lines.join('\r\n');
+};
+
+export const toCslJson = (references: Reference[]): string => {
+  const keys = generateCitationKeys(references);
+
+  const items = references.map((ref, i) => {
+    const year = parseInt(yearOf(ref));
+    return {
+      id: keys[i],
+      'citation-key': keys[i],
+      type: isConferencePaper(ref) ? 'paper-conference' : 'article-journal',
+      title: ref.title,
+      author: realAuthors(ref.authors).map(a => (a.given ? { family: a.family, given: a.given } : { literal: a.family })),
+      'container-title': ref.publication || undefined,
+      issued: isNaN(year) ? undefined : { 'date-parts': [[year]] },
+      DOI: doiOf(ref),
+      URL: ref.url || undefined,
+      abstract: ref.summary || undefined,
+    };
+  });
+
+  return JSON.stringify(items, null, 2);
+};
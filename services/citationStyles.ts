@@ -0,0 +1,236 @@
+import { Reference } from "../types";
+import { extractDoi } from "./referenceIdentity";
+import { AuthorName, hasTruncatedAuthors, initials, realAuthors } from "./authorNames";
+
+export enum CitationStyleId {
+  APA = 'apa',
+  VANCOUVER = 'vancouver',
+  IEEE = 'ieee',
+  NATURE = 'nature',
+  ACS = 'acs',
+}
+
+// Styled piece of text; renderers turn runs into plain text, HTML, DOCX, ...
+export interface FormattedRun {
+  text: string;
+  italic?: boolean;
+  bold?: boolean;
+  superscript?: boolean;
+}
+
+export interface CitationStyle {
+  id: CitationStyleId;
+  name: string;
+  // Numeric styles number references by first citation; author-year styles sort alphabetically
+  numeric: boolean;
+  // refNumbers are 1-based positions in `references` (the order of first citation)
+  formatCitation: (refNumbers: number[], references: Reference[]) => FormattedRun[];
+  formatEntry: (ref: Reference) => FormattedRun[];
+  entryLabel?: (n: number) => string;
+}
+
+export interface BibliographyEntry {
+  label?: string;
+  runs: FormattedRun[];
+}
+
+// --- Shared helpers ---
+
+const yearOf = (ref: Reference): string => (ref.year.match(/\d{4}/) || [ref.year])[0] || 'n.d.';
+
+const doiOf = (ref: Reference): string | undefined => ref.doi || extractDoi(ref.url);
+
+const withPeriod = (text: string): string => (/[.?!]$/.test(text.trim()) ? text.trim() : `${text.trim()}.`);
+
+// [1, 2, 3, 5] -> "1–3,5"
+const compressNumbers = (numbers: number[], separator = ','): string => {
+  const sorted = [...new Set(numbers)].sort((a, b) => a - b);
+  const parts: string[] = [];
+  let i = 0;
+  while (i < sorted.length) {
+    let j = i;
+    while (j + 1 < sorted.length && sorted[j + 1] === sorted[j] + 1) j++;
+    if (j - i >= 2) parts.push(`${sorted[i]}–${sorted[j]}`);
+    else parts.push(...sorted.slice(i, j + 1).map(String));
+    i = j + 1;
+  }
+  return parts.join(separator);
+};
+
+// Keep at most `max` authors; beyond that show `keep` and mark the list as truncated
+const truncateAuthors = (ref: Reference, max: number, keep: number): { authors: AuthorName[]; etAl: boolean } => {
+  const authors = realAuthors(ref.authors);
+  if (authors.length > max) return { authors: authors.slice(0, keep), etAl: true };
+  return { authors, etAl: hasTruncatedAuthors(ref.authors) };
+};
+
+const joinAuthors = (names: string[], separator: string, lastSeparator: string): string => {
+  if (names.length <= 1) return names.join('');
+  return `${names.slice(0, -1).join(separator)}${lastSeparator}${names[names.length - 1]}`;
+};
+
+const familyInitials = (a: AuthorName, initialSeparator = ' '): string =>
+  a.given ? `${a.family}, ${initials(a.given, initialSeparator)}` : a.family;
+
+// --- Styles ---
+
+const apa: CitationStyle = {
+  id: CitationStyleId.APA,
+  name: 'APA (7th ed.)',
+  numeric: false,
+  formatCitation: (refNumbers, references) => {
+    const parts = refNumbers.map(n => {
+      const ref = references[n - 1];
+      const authors = realAuthors(ref.authors);
+      let who = authors[0]?.family || ref.title;
+      if (authors.length === 2 && !hasTruncatedAuthors(ref.authors)) who = `${authors[0].family} & ${authors[1].family}`;
+      else if (authors.length > 1 || hasTruncatedAuthors(ref.authors)) who += ' et al.';
+      return `${who}, ${yearOf(ref)}`;
+    });
+    return [{ text: `(${parts.join('; ')})` }];
+  },
+  formatEntry: (ref) => {
+    // APA lists up to 20 authors
+    const { authors, etAl } = truncateAuthors(ref, 20, 19);
+    const names = authors.map(a => familyInitials(a));
+    const authorText = etAl
+      ? `${names.join(', ')}, et al.`
+      : joinAuthors(names, ', ', names.length > 2 ? ', & ' : ' & ');
+    const doi = doiOf(ref);
+
+    const runs: FormattedRun[] = [{ text: `${authorText ? `${withPeriod(authorText)} ` : ''}(${yearOf(ref)}). ${withPeriod(ref.title)} ` }];
+    if (ref.publication) runs.push({ text: ref.publication, italic: true }, { text: '. ' });
+    runs.push({ text: doi ? `https://doi.org/${doi}` : ref.url });
+    return runs;
+  },
+};
+
+const vancouver: CitationStyle = {
+  id: CitationStyleId.VANCOUVER,
+  name: 'Vancouver',
+  numeric: true,
+  formatCitation: (refNumbers) => [{ text: `(${compressNumbers(refNumbers)})` }],
+  formatEntry: (ref) => {
+    // Vancouver lists up to 6 authors, then "et al."
+    const { authors, etAl } = truncateAuthors(ref, 6, 6);
+    const names = authors.map(a => `${a.family}${a.given ? ` ${initials(a.given, '').replace(/[.-]/g, '')}` : ''}`);
+    const authorText = names.join(', ') + (etAl ? ', et al' : '');
+    const doi = doiOf(ref);
+
+    let text = `${authorText ? `${authorText}. ` : ''}${withPeriod(ref.title)} `;
+    if (ref.publication) text += `${ref.publication}. `;
+    text += `${yearOf(ref)}.`;
+    text += doi ? ` doi:${doi}` : ref.url ? ` Available from: ${ref.url}` : '';
+    return [{ text }];
+  },
+  entryLabel: (n) => `${n}.`,
+};
+
+const ieee: CitationStyle = {
+  id: CitationStyleId.IEEE,
+  name: 'IEEE',
+  numeric: true,
+  formatCitation: (refNumbers) => [{
+    text: compressNumbers(refNumbers, ', ').split(', ').map(part => part.split('–').map(n => `[${n}]`).join('–')).join(', '),
+  }],
+  formatEntry: (ref) => {
+    // IEEE lists up to 6 authors; more than that collapses to the first author
+    const { authors, etAl } = truncateAuthors(ref, 6, 1);
+    const names = authors.map(a => (a.given ? `${initials(a.given)} ${a.family}` : a.family));
+    const authorText = etAl
+      ? `${names.join(', ')} et al.`
+      : joinAuthors(names, ', ', names.length > 2 ? ', and ' : ' and ');
+    const doi = doiOf(ref);
+
+    const runs: FormattedRun[] = [{ text: `${authorText ? `${authorText}, ` : ''}“${ref.title.trim()},” ` }];
+    if (ref.publication) runs.push({ text: ref.publication, italic: true }, { text: ', ' });
+    runs.push({ text: `${yearOf(ref)}.` });
+    runs.push({ text: doi ? ` doi: ${doi}.` : ref.url ? ` [Online]. Available: ${ref.url}` : '' });
+    return runs;
+  },
+  entryLabel: (n) => `[${n}]`,
+};
+
+const nature: CitationStyle = {
+  id: CitationStyleId.NATURE,
+  name: 'Nature',
+  numeric: true,
+  formatCitation: (refNumbers) => [{ text: compressNumbers(refNumbers), superscript: true }],
+  formatEntry: (ref) => {
+    // Nature lists up to 5 authors; more than that collapses to the first author
+    const { authors, etAl } = truncateAuthors(ref, 5, 1);
+    const names = authors.map(a => familyInitials(a));
+    const authorText = etAl ? `${names.join(', ')} et al.` : joinAuthors(names, ', ', ' & ');
+    const doi = doiOf(ref);
+
+    const runs: FormattedRun[] = [{ text: `${authorText ? `${withPeriod(authorText)} ` : ''}${withPeriod(ref.title)} ` }];
+    if (ref.publication) runs.push({ text: ref.publication, italic: true }, { text: ' ' });
+    runs.push({ text: `(${yearOf(ref)}).` });
+    if (doi || ref.url) runs.push({ text: ` ${doi ? `https://doi.org/${doi}` : ref.url}` });
+    return runs;
+  },
+  entryLabel: (n) => `${n}.`,
+};
+
+const acs: CitationStyle = {
+  id: CitationStyleId.ACS,
+  name: 'ACS',
+  numeric: true,
+  formatCitation: (refNumbers) => [{ text: compressNumbers(refNumbers), superscript: true }],
+  formatEntry: (ref) => {
+    // ACS lists all authors; keep the first 10 for very long consortium lists
+    const { authors, etAl } = truncateAuthors(ref, 10, 10);
+    const authorText = authors.map(a => familyInitials(a)).join('; ') + (etAl ? '; et al.' : '');
+    const doi = doiOf(ref);
+
+    const runs: FormattedRun[] = [{ text: `${authorText ? `${withPeriod(authorText)} ` : ''}${withPeriod(ref.title)} ` }];
+    if (ref.publication) runs.push({ text: ref.publication, italic: true }, { text: ' ' });
+    runs.push({ text: yearOf(ref), bold: true }, { text: '.' });
+    if (doi || ref.url) runs.push({ text: doi ? ` DOI: ${doi}.` : ` ${ref.url}` });
+    return runs;
+  },
+  entryLabel: (n) => `(${n})`,
+};
+
+export const CITATION_STYLES: Record<CitationStyleId, CitationStyle> = {
+  [CitationStyleId.APA]: apa,
+  [CitationStyleId.VANCOUVER]: vancouver,
+  [CitationStyleId.IEEE]: ieee,
+  [CitationStyleId.NATURE]: nature,
+  [CitationStyleId.ACS]: acs,
+};
+
+export const getCitationStyle = (id: CitationStyleId): CitationStyle => CITATION_STYLES[id] || ieee;
+
+// Numeric styles keep citation order; author-year styles sort by author then year
+export const formatBibliography = (references: Reference[], style: CitationStyle): BibliographyEntry[] => {
+  if (style.numeric) {
+    return references.map((ref, i) => ({ label: style.entryLabel?.(i + 1), runs: style.formatEntry(ref) }));
+  }
+  const sortKey = (ref: Reference) => `${realAuthors(ref.authors)[0]?.family || ref.title} ${yearOf(ref)}`.toLowerCase();
+  return [...references]
+    .sort((a, b) => sortKey(a).localeCompare(sortKey(b)))
+    .map(ref => ({ runs: style.formatEntry(ref) }));
+};
+
+// --- Renderers ---
+
+const SUPERSCRIPT_CHARS: Record<string, string> = {
+  '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴', '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹', '–': '⁻',
+};
+
+// Plain text has no italics; superscripts fall back to Unicode superscript digits
+export const runsToText = (runs: FormattedRun[]): string =>
+  runs.map(run => (run.superscript ? run.text.split('').map(ch => SUPERSCRIPT_CHARS[ch] || ch).join('') : run.text)).join('');
+
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const runsToHtml = (runs: FormattedRun[]): string =>
+  runs.map(run => {
+    let html = escapeHtml(run.text);
+    if (run.italic) html = `<i>${html}</i>`;
+    if (run.bold) html = `<b>${html}</b>`;
+    if (run.superscript) html = `<sup>${html}</sup>`;
+    return html;
+  }).join('');
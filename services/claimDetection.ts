@@ -0,0 +1,105 @@
+import { EditorSnapshot } from "./editorDocument";
+
+// Finds sentences that state facts or refer to prior work but carry no citation.
+// Runs locally on cue phrases so scanning a whole manuscript costs no quota.
+
+export interface ClaimCandidate {
+  start: number; // Offsets into EditorSnapshot.text
+  end: number;
+  text: string;
+  reason: string;
+}
+
+// A candidate as shown in the UI; its mark in the editor carries the same id
+export interface ClaimSuggestion {
+  id: string;
+  text: string;
+  reason: string;
+}
+
+interface Cue {
+  pattern: RegExp;
+  weight: number;
+  reason?: string; // Only positive cues explain a suggestion
+}
+
+const CUES: Cue[] = [
+  // Prior work
+  { pattern: /\b(?:has|have|had) been (?:shown|reported|demonstrated|proposed|observed|found|suggested|described|developed|established|widely)\b/i, weight: 3, reason: 'Refers to prior work' },
+  { pattern: /\b(?:previous|prior|recent|earlier|several|many|numerous|other) (?:studies|works?|research|reports|investigations|authors|groups)\b/i, weight: 3, reason: 'Refers to prior work' },
+  { pattern: /\b(?:studies|researchers|authors|reports|literature) (?:have |has )?(?:shown|found|reported|demonstrated|suggested|indicated)\b/i, weight: 3, reason: 'Refers to prior work' },
+  { pattern: /\b(?:was|were) (?:first )?(?:introduced|proposed|developed|reported|discovered) (?:by|in)\b/i, weight: 3, reason: 'Refers to prior work' },
+  // Established or general facts
+  { pattern: /\b(?:it is|is|are) (?:well[- ])?(?:known|established|documented|recognized)\b/i, weight: 2, reason: 'States an established fact' },
+  { pattern: /\b(?:widely|commonly|extensively|frequently|increasingly|generally|typically|traditionally) (?:used|studied|adopted|accepted|applied|employed|believed|considered)\b/i, weight: 2, reason: 'States an established fact' },
+  { pattern: /\bplays? an? (?:key|important|crucial|central|critical|major|pivotal|essential|vital) role\b/i, weight: 2, reason: 'States an established fact' },
+  { pattern: /\b(?:emerged|has emerged|is emerging) as\b|\bpromising (?:strategy|approach|method|candidate|route)\b/i, weight: 2, reason: 'States an established fact' },
+  { pattern: /\b(?:state[- ]of[- ]the[- ]art|gold standard|leading cause|most common)\b/i, weight: 2, reason: 'States an established fact' },
+  // Numbers that come from somewhere
+  { pattern: /\b\d+(?:\.\d+)?\s?%|\b\d+(?:\.\d+)?-fold\b|\b(?:up to|more than|over|approximately|nearly|about) \d|\b(?:million|billion)\b/i, weight: 2, reason: 'Reports a quantitative finding' },
+  // Several named methods or materials, e.g. "(SNOBFIT), (CMA-ES)", each of which has a source
+  { pattern: /\([A-Z][A-Za-z0-9-]*[A-Z][A-Za-z0-9-]*\)[^]*\([A-Z][A-Za-z0-9-]*[A-Z][A-Za-z0-9-]*\)/, weight: 2, reason: 'Names specific methods' },
+  // The authors' own contribution needs no citation
+  { pattern: /\b(?:in this (?:work|study|paper|article|review)|here,? we)\b/i, weight: -3 },
+  { pattern: /\b(?:we|our)\b/i, weight: -2 },
+];
+
+const MIN_SCORE = 2;
+const MIN_WORDS = 6;
+const MAX_SUGGESTIONS = 25;
+
+// Inline citations that never made it into a CitationAnchor (e.g. typed by hand)
+const INLINE_CITATION = /\[\d+(?:\s*[,–-]\s*\d+)*\]|\(\s*[A-Z][A-Za-z'-]+(?: et al\.)?(?: (?:and|&) [A-Z][A-Za-z'-]+)?,? \d{4}[a-z]?\s*\)|\\\w*cite|\[@/;
+
+// A period after these does not end the sentence
+const ABBREVIATION = /\b(?:e\.g|i\.e|et al|etc|vs|cf|Figs?|Eqs?|Refs?|Dr|Prof|approx|ca|No|Vol)\.$/i;
+
+const splitSentences = (text: string): { start: number; end: number }[] => {
+  const sentences: { start: number; end: number }[] = [];
+
+  const push = (from: number, to: number) => {
+    while (from < to && /\s/.test(text[from])) from++;
+    while (to > from && /\s/.test(text[to - 1])) to--;
+    if (to > from) sentences.push({ start: from, end: to });
+  };
+
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '\n') {
+      push(start, i);
+      start = i + 1;
+    } else if (/[.!?]/.test(ch) && (i + 1 === text.length || /\s/.test(text[i + 1]))
+      && !ABBREVIATION.test(text.slice(Math.max(start, i - 8), i + 1))) {
+      push(start, i + 1);
+      start = i + 1;
+    }
+  }
+  push(start, text.length);
+  return sentences;
+};
+
+export const detectClaims = (snapshot: EditorSnapshot): ClaimCandidate[] => {
+  // Headings, searched highlights and imported citations are already taken care of
+  const covered = [...(snapshot.headings || []), ...snapshot.highlights, ...(snapshot.citations || [])];
+  const overlapsCovered = (start: number, end: number) => covered.some(c => c.start < end && c.end > start);
+
+  const scored = splitSentences(snapshot.text)
+    .map(({ start, end }) => ({ start, end, text: snapshot.text.slice(start, end) }))
+    .filter(s => s.text.split(/\s+/).length >= MIN_WORDS && !s.text.endsWith('?'))
+    .filter(s => !INLINE_CITATION.test(s.text) && !overlapsCovered(s.start, s.end))
+    .map(s => {
+      const matched = CUES.filter(cue => cue.pattern.test(s.text));
+      const score = matched.reduce((sum, cue) => sum + cue.weight, 0);
+      const strongest = matched.filter(cue => cue.reason).sort((a, b) => b.weight - a.weight)[0];
+      return { ...s, score, reason: strongest?.reason || '' };
+    })
+    .filter(s => s.score >= MIN_SCORE);
+
+  // Keep the strongest claims, reported in reading order
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SUGGESTIONS)
+    .sort((a, b) => a.start - b.start)
+    .map(({ start, end, text, reason }) => ({ start, end, text, reason }));
+};
@@ -0,0 +1,76 @@
+import { Reference, SelectionContext, SupportAssessment, SupportStance } from "../types";
+
+// Claim-support assessment: after verification, each reference is rated against the highlighted text
+// as supports / partially supports / contradicts / unrelated, with a confidence and the passage the
+// rating rests on. Providers do the rating; this module holds the shared prompt, schema and parsing.
+
+const QUOTE_LENGTH = 300;
+
+export const SUPPORT_LIST_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      index: { type: 'integer', description: 'Position of the paper in the list, starting at 0' },
+      stance: { type: 'string', enum: Object.values(SupportStance), description: 'How the paper relates to the claim' },
+      confidence: { type: 'number', description: 'Confidence in the stance, from 0 to 1' },
+      quote: { type: 'string', description: 'Short passage from the paper the stance rests on' },
+    },
+    required: ['index', 'stance', 'confidence', 'quote'],
+  },
+};
+
+export const buildSupportPrompt = (context: SelectionContext, references: Reference[]): string => `
+    You are checking citations in a scientific manuscript.
+
+    **Claim**: "${context.highlightedText}"
+    **Text before the claim**: "${context.precedingContext}"
+
+    For each paper below, decide whether its findings back the claim:
+    - "${SupportStance.SUPPORTS}": the paper reports evidence or results that directly back the claim.
+    - "${SupportStance.PARTIAL}": it backs part of the claim, or a weaker or narrower version of it.
+    - "${SupportStance.CONTRADICTS}": its findings dispute the claim.
+    - "${SupportStance.UNRELATED}": it is on the topic but does not speak to the claim.
+
+    Give a confidence from 0 to 1, and quote the passage from the paper (abstract or findings, verbatim where you know it,
+    max 40 words) the judgement rests on. Judge the paper, not how well it was described to you.
+
+    **Papers**:
+    ${references.map((ref, i) => `${i}. "${ref.title}" (${ref.publication}, ${ref.year}). ${ref.summary}`).join('\n    ')}
+
+    Return a JSON array with one object per paper: [{"index": 0, "stance": "...", "confidence": 0.8, "quote": "..."}]
+  `;
+
+const STANCES = Object.values(SupportStance) as string[];
+
+const toAssessment = (item: unknown): { index: number; assessment: SupportAssessment } | null => {
+  if (!item || typeof item !== 'object') return null;
+  const { index, stance, confidence, quote } = item as Record<string, unknown>;
+  const normalizedStance = typeof stance === 'string' ? stance.trim().toLowerCase() : '';
+  if (typeof index !== 'number' || !STANCES.includes(normalizedStance)) return null;
+  const value = typeof confidence === 'number' ? confidence : parseFloat(String(confidence));
+  return {
+    index,
+    assessment: {
+      stance: normalizedStance as SupportStance,
+      // Some models answer in percent
+      confidence: Number.isFinite(value) ? Math.min(1, Math.max(0, value > 1 ? value / 100 : value)) : 0.5,
+      quote: typeof quote === 'string' ? quote.trim().slice(0, QUOTE_LENGTH) : '',
+    },
+  };
+};
+
+// Attaches parsed ratings to the references they name; items that can't be read leave the reference unrated
+export const applyAssessments = (references: Reference[], items: unknown[]): Reference[] => {
+  const byIndex = new Map<number, SupportAssessment>();
+  items.forEach(item => {
+    const parsed = toAssessment(item);
+    if (parsed && parsed.index >= 0 && parsed.index < references.length) byIndex.set(parsed.index, parsed.assessment);
+  });
+  return references.map((ref, i) => (byIndex.has(i) ? { ...ref, support: byIndex.get(i) } : ref));
+};
+
+// With `supportedOnly`, rated references must be rated "supports". Unrated ones are kept:
+// they are what remains when the assessment could not run, and dropping them would empty the results.
+export const meetsSupportFilter = (support: SupportAssessment | undefined, supportedOnly?: boolean): boolean =>
+  !supportedOnly || !support || support.stance === SupportStance.SUPPORTS;
@@ -0,0 +1,37 @@
+import { CustomReason } from "../types";
+
+// Removal reasons the user defined ("wrong organism", "too general"), kept in localStorage
+// and offered in every card's removal menu next to the built-in ones.
+
+const REASONS_KEY = 'sciref.reasons';
+
+export const MAX_REASON_LENGTH = 120;
+
+export const loadCustomReasons = (): CustomReason[] => {
+  try {
+    const raw = localStorage.getItem(REASONS_KEY);
+    return raw ? (JSON.parse(raw) as CustomReason[]) : [];
+  } catch (e) {
+    console.warn("Could not read the custom removal reasons:", e);
+    return [];
+  }
+};
+
+export const saveCustomReasons = (reasons: CustomReason[]) => {
+  try {
+    localStorage.setItem(REASONS_KEY, JSON.stringify(reasons));
+  } catch (e) {
+    console.error("Could not save the custom removal reasons:", e);
+  }
+};
+
+// Whitespace collapsed and length capped, so a pasted paragraph stays usable in the menu and the prompt
+export const cleanReason = (text: string): string =>
+  text.replace(/\s+/g, ' ').trim().slice(0, MAX_REASON_LENGTH);
+
+// Adds a reason unless one with the same wording exists
+export const addCustomReason = (reasons: CustomReason[], label: string): CustomReason[] => {
+  const clean = cleanReason(label);
+  if (!clean || reasons.some(r => r.label.toLowerCase() === clean.toLowerCase())) return reasons;
+  return [...reasons, { id: `reason-${Date.now()}`, label: clean }];
+};
@@ -0,0 +1,104 @@
+import { CitationStyle, FormattedRun, formatBibliography, escapeHtml } from "./citationStyles";
+import { CitedManuscript, citationRuns, toBlocks } from "./exportService";
+import { createZip } from "./zip";
+
+// Minimal WordprocessingML writer: one document part plus the styles it references.
+// Headings and the reference list use named styles so authors can restyle them in Word.
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const W_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+const CONTENT_TYPES = `${XML_HEADER}
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+</Types>`;
+
+const PACKAGE_RELS = `${XML_HEADER}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS = `${XML_HEADER}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+// Sizes are in half-points, spacing and indents in twentieths of a point
+const headingStyle = (level: number, size: number) => `<w:style w:type="paragraph" w:styleId="Heading${level}">
+<w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>
+<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${level - 1}"/></w:pPr>
+<w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr>
+</w:style>`;
+
+const STYLES = `${XML_HEADER}
+<w:styles xmlns:w="${W_NAMESPACE}">
+<w:docDefaults>
+<w:rPrDefault><w:rPr><w:rFonts w:ascii="Times New Roman" w:hAnsi="Times New Roman" w:cs="Times New Roman"/><w:sz w:val="24"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="360" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+</w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+${headingStyle(1, 32)}
+${headingStyle(2, 28)}
+${headingStyle(3, 24)}
+<w:style w:type="paragraph" w:styleId="Bibliography">
+<w:name w:val="Bibliography"/><w:basedOn w:val="Normal"/>
+<w:pPr><w:spacing w:after="120" w:line="240" w:lineRule="auto"/><w:ind w:left="567" w:hanging="567"/></w:pPr>
+</w:style>
+</w:styles>`;
+
+// Control characters other than tab/newline are not allowed in XML
+const escapeXml = (text: string): string => escapeHtml(text.replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, ''));
+
+const runXml = (run: FormattedRun): string => {
+  if (!run.text) return '';
+  const props = [
+    run.bold ? '<w:b/>' : '',
+    run.italic ? '<w:i/>' : '',
+    run.superscript ? '<w:vertAlign w:val="superscript"/>' : '',
+  ].join('');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(run.text)}</w:t></w:r>`;
+};
+
+const paragraphXml = (runs: FormattedRun[], styleId?: string): string =>
+  `<w:p>${styleId ? `<w:pPr><w:pStyle w:val="${styleId}"/></w:pPr>` : ''}${runs.map(runXml).join('')}</w:p>`;
+
+export const renderDocumentXml = ({ segments, references }: CitedManuscript, style: CitationStyle): string => {
+  const body = toBlocks(segments).map(block => {
+    if (block.kind === 'heading') return paragraphXml([{ text: block.text }], `Heading${Math.min(Math.max(block.level, 1), 3)}`);
+    const runs = block.content.flatMap(item =>
+      item.kind === 'citation' ? citationRuns(item, references, style) : [{ text: item.text }]
+    );
+    return paragraphXml(runs);
+  });
+
+  if (references.length > 0) {
+    body.push(paragraphXml([{ text: 'References' }], 'Heading1'));
+    formatBibliography(references, style).forEach(entry => {
+      const label: FormattedRun[] = entry.label ? [{ text: `${entry.label} ` }] : [];
+      body.push(paragraphXml([...label, ...entry.runs], 'Bibliography'));
+    });
+  }
+
+  return `${XML_HEADER}
+<w:document xmlns:w="${W_NAMESPACE}">
+<w:body>
+${body.join('\n')}
+<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>
+</w:body>
+</w:document>`;
+};
+
+// Built entirely in the browser; nothing leaves the machine
+export const createDocx = (cited: CitedManuscript, style: CitationStyle): Uint8Array =>
+  createZip([
+    { name: '[Content_Types].xml', content: CONTENT_TYPES },
+    { name: '_rels/.rels', content: PACKAGE_RELS },
+    { name: 'word/document.xml', content: renderDocumentXml(cited, style) },
+    { name: 'word/_rels/document.xml.rels', content: DOCUMENT_RELS },
+    { name: 'word/styles.xml', content: STYLES },
+  ]);
@@ -0,0 +1,230 @@
+// Serializes the contentEditable manuscript to plain text plus highlight offsets and back.
+// Storing anchors instead of raw HTML keeps saved sessions small and independent of markup quirks.
+
+export interface HighlightAnchor {
+  searchId: string;
+  start: number; // Character offsets into EditorSnapshot.text
+  end: number;
+}
+
+// Section headings from imported manuscripts; `end` includes the heading's trailing newline
+export interface HeadingAnchor {
+  level: number; // 1-3
+  start: number;
+  end: number;
+}
+
+// Citation markers already present in an imported manuscript (\cite{}, [@key], [1])
+export interface CitationAnchor {
+  keys: string[];
+  start: number;
+  end: number;
+}
+
+export interface EditorSnapshot {
+  text: string;
+  highlights: HighlightAnchor[];
+  headings?: HeadingAnchor[];
+  citations?: CitationAnchor[];
+}
+
+export const HIGHLIGHT_CLASS = "bg-yellow-200 border-b-2 border-yellow-400 cursor-pointer hover:bg-yellow-300 transition-colors rounded-sm px-0.5";
+
+export const createHighlightSpan = (searchId: string): HTMLSpanElement => {
+  const span = document.createElement('span');
+  span.className = HIGHLIGHT_CLASS;
+  span.dataset.searchId = searchId;
+  span.title = "Click to view references";
+  return span;
+};
+
+const HEADING_CLASSES: Record<number, string> = {
+  1: "block font-sans text-2xl font-bold text-slate-900 mt-4",
+  2: "block font-sans text-xl font-bold text-slate-900 mt-3",
+  3: "block font-sans text-lg font-semibold text-slate-800 mt-2",
+};
+
+const CITATION_CLASS = "text-slate-500 bg-slate-100 rounded-sm px-0.5";
+
+export const createCitationSpan = (keys: string[]): HTMLSpanElement => {
+  const span = document.createElement('span');
+  span.className = CITATION_CLASS;
+  span.dataset.citationKeys = keys.join(',');
+  span.title = `Existing citation: ${keys.join(', ')}`;
+  return span;
+};
+
+// Proposed claims from a manuscript scan; never saved, so they are plain spans the capture ignores
+const SUGGESTION_CLASS = "border-b-2 border-dashed border-indigo-400 bg-indigo-50/60 cursor-pointer rounded-sm";
+
+export const createSuggestionSpan = (suggestionId: string, reason: string): HTMLSpanElement => {
+  const span = document.createElement('span');
+  span.className = SUGGESTION_CLASS;
+  span.dataset.suggestionId = suggestionId;
+  span.title = `Suggested citation: ${reason}`;
+  return span;
+};
+
+const BLOCK_TAGS = ['DIV', 'P', 'H1', 'H2', 'H3', 'LI'];
+const HEADING_TAGS = ['H1', 'H2', 'H3'];
+
+export const captureEditor = (root: HTMLElement): EditorSnapshot => {
+  let text = '';
+  const highlights: HighlightAnchor[] = [];
+  const headings: HeadingAnchor[] = [];
+  const citations: CitationAnchor[] = [];
+
+  const processNode = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      text += node.textContent || '';
+    } else if (node.nodeType === Node.ELEMENT_NODE) {
+      const el = node as HTMLElement;
+
+      if (el.tagName === 'BR') {
+        text += '\n';
+        return;
+      }
+
+      const isBlock = BLOCK_TAGS.includes(el.tagName);
+      // Browsers put new lines in <div>s next to bare text, so a block always starts on its own line
+      if (isBlock && text && !text.endsWith('\n')) text += '\n';
+
+      const start = text.length;
+      el.childNodes.forEach(child => processNode(child));
+
+      if (el.tagName === 'SPAN' && el.dataset.searchId) {
+        highlights.push({ searchId: el.dataset.searchId, start, end: text.length });
+      }
+      if (el.tagName === 'SPAN' && el.dataset.citationKeys) {
+        citations.push({ keys: el.dataset.citationKeys.split(','), start, end: text.length });
+      }
+      if (isBlock && !text.endsWith('\n')) text += '\n';
+      if (HEADING_TAGS.includes(el.tagName)) {
+        headings.push({ level: parseInt(el.tagName.charAt(1)), start, end: text.length });
+      }
+    }
+  };
+
+  root.childNodes.forEach(child => processNode(child));
+  return { text, highlights, headings, citations };
+};
+
+// Find the text node and offset for a character position in the editor
+const locate = (root: HTMLElement, offset: number): { node: Text; offset: number } | null => {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  let remaining = offset;
+  let last: Text | null = null;
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    const length = node.textContent?.length || 0;
+    if (remaining <= length) return { node, offset: remaining };
+    remaining -= length;
+    last = node;
+  }
+  return last ? { node: last, offset: last.textContent?.length || 0 } : null;
+};
+
+// Wrap the characters between two offsets in a new element
+const wrapRange = (root: HTMLElement, startOffset: number, endOffset: number, wrapper: HTMLElement) => {
+  if (endOffset <= startOffset || startOffset < 0) return;
+  const start = locate(root, startOffset);
+  const end = locate(root, endOffset);
+  if (!start || !end) return;
+
+  try {
+    const range = document.createRange();
+    range.setStart(start.node, start.offset);
+    range.setEnd(end.node, end.offset);
+    wrapper.appendChild(range.extractContents());
+    range.insertNode(wrapper);
+  } catch (e) {
+    console.error("Could not restore editor markup:", e);
+  }
+};
+
+export const restoreEditor = (root: HTMLElement, snapshot: EditorSnapshot) => {
+  // A single text node; the editor uses white-space: pre-wrap so newlines render as line breaks
+  root.textContent = snapshot.text;
+
+  (snapshot.headings || []).forEach(heading => {
+    const level = Math.min(Math.max(heading.level, 1), 3);
+    const el = document.createElement(`h${level}`);
+    el.className = HEADING_CLASSES[level];
+    wrapRange(root, heading.start, heading.end, el);
+  });
+
+  (snapshot.citations || []).forEach(citation => {
+    wrapRange(root, citation.start, citation.end, createCitationSpan(citation.keys));
+  });
+
+  // Outer highlights first so nested ones are wrapped inside them, as when they were created
+  [...snapshot.highlights]
+    .sort((a, b) => a.start - b.start || b.end - a.end)
+    .forEach(anchor => wrapRange(root, anchor.start, anchor.end, createHighlightSpan(anchor.searchId)));
+
+  root.normalize();
+};
+
+// Citation marker inside the range, or right after it in the same sentence
+export const findExistingCitation = (root: HTMLElement, range: Range): HTMLElement | null => {
+  const markers = Array.from(root.querySelectorAll<HTMLElement>('span[data-citation-keys]'));
+  for (const marker of markers) {
+    if (range.intersectsNode(marker)) return marker;
+    // Markers before the selection cite something else
+    if (range.comparePoint(marker, 0) < 0) continue;
+
+    const between = document.createRange();
+    between.setStart(range.endContainer, range.endOffset);
+    between.setEndBefore(marker);
+    const gap = between.toString();
+    if (gap.length <= 40 && !/[.!?]/.test(gap)) return marker;
+  }
+  return null;
+};
+
+// Replace an element by its children; returns a range over them
+const unwrap = (el: Element): Range | null => {
+  const parent = el.parentNode;
+  if (!parent) return null;
+
+  const range = document.createRange();
+  range.setStartBefore(el);
+  const first = el.firstChild;
+  const last = el.lastChild;
+  while (el.firstChild) {
+    parent.insertBefore(el.firstChild, el);
+  }
+  parent.removeChild(el);
+  if (first && last) {
+    range.setStartBefore(first);
+    range.setEndAfter(last);
+  }
+  return range;
+};
+
+// Remove the highlight span for a search, keeping its text
+export const removeHighlight = (root: HTMLElement, searchId: string) => {
+  const highlightSpan = root.querySelector(`span[data-search-id="${searchId}"]`);
+  if (highlightSpan) {
+    const parent = highlightSpan.parentNode;
+    unwrap(highlightSpan);
+    parent?.normalize();
+  }
+};
+
+// Mark scanned claims in the editor. Offsets are into `snapshot.text`, so the editor is first
+// re-rendered from that snapshot to make its text nodes line up with the offsets.
+export const markSuggestions = (
+  root: HTMLElement,
+  snapshot: EditorSnapshot,
+  suggestions: { id: string; start: number; end: number; reason: string }[]
+) => {
+  restoreEditor(root, snapshot);
+  suggestions.forEach(s => wrapRange(root, s.start, s.end, createSuggestionSpan(s.id, s.reason)));
+};
+
+// Removes a suggestion mark; the returned range covers its text, ready to be highlighted
+export const removeSuggestion = (root: HTMLElement, suggestionId: string): Range | null => {
+  const mark = root.querySelector(`span[data-suggestion-id="${suggestionId}"]`);
+  return mark ? unwrap(mark) : null;
+};
@@ -0,0 +1,315 @@
+import { LibraryEntry, Reference, SearchResultData } from "../types";
+import { CitationStyle, FormattedRun, formatBibliography, runsToHtml, runsToText, escapeHtml } from "./citationStyles";
+import { escapeLatex, generateCitationKeys, toBibTeX } from "./bibliographyFormats";
+import { createZip } from "./zip";
+import { citedReferences, findLibraryEntry } from "./referenceLibrary";
+import { sameReference } from "./referenceIdentity";
+import { meetsSupportFilter } from "./claimSupport";
+
+// A flattened view of the editor: text, line breaks, headings, and citation markers after each highlight
+export type ManuscriptSegment =
+  | { kind: 'text'; text: string }
+  | { kind: 'break' }
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'citation'; searchId: string; refNumbers: number[] }
+  | { kind: 'existingCitation'; keys: string[]; text: string }; // Imported with the manuscript
+
+export type InlineSegment = Extract<ManuscriptSegment, { kind: 'text' | 'citation' | 'existingCitation' }>;
+
+// Paragraph-level structure for rich formats; lines in the editor are paragraphs
+export type ManuscriptBlock =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'paragraph'; content: InlineSegment[] };
+
+export interface CitedManuscript {
+  segments: ManuscriptSegment[];
+  references: Reference[]; // De-duplicated, in order of first citation (reference n is references[n - 1])
+}
+
+const BLOCK_TAGS = ['DIV', 'P', 'LI'];
+const HEADING_TAGS = ['H1', 'H2', 'H3'];
+
+// Walk the editor DOM, numbering each cited reference the first time it appears.
+// Library entries are numbered once however many highlights cite them.
+// With `supportedOnly`, search results rated anything but "supports" are left out; pinned entries were
+// chosen by hand and always stay.
+export const collectCitedManuscript = (
+  root: Node,
+  searchHistory: Record<string, SearchResultData>,
+  library: LibraryEntry[] = [],
+  { supportedOnly = false }: { supportedOnly?: boolean } = {}
+): CitedManuscript => {
+  const segments: ManuscriptSegment[] = [];
+  const references: Reference[] = [];
+  const seenRefs = new Map<string, number>();
+
+  const processNode = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      segments.push({ kind: 'text', text: node.textContent || '' });
+    } else if (node.nodeType === Node.ELEMENT_NODE) {
+      const el = node as HTMLElement;
+
+      if (el.tagName === 'BR') {
+        segments.push({ kind: 'break' });
+      } else if (HEADING_TAGS.includes(el.tagName)) {
+        const text = (el.textContent || '').trim();
+        if (text) segments.push({ kind: 'heading', level: parseInt(el.tagName.charAt(1)), text });
+      } else if (el.tagName === 'SPAN' && el.dataset.citationKeys) {
+        segments.push({ kind: 'existingCitation', keys: el.dataset.citationKeys.split(','), text: el.textContent || '' });
+      } else if (el.tagName === 'SPAN' && el.dataset.searchId) {
+        segments.push({ kind: 'text', text: el.textContent || '' });
+
+        const searchId = el.dataset.searchId;
+        const data = searchHistory[searchId];
+
+        const cited = data
+          ? citedReferences(data, library).filter(({ support }) => meetsSupportFilter(support, supportedOnly))
+          : [];
+        if (cited.length > 0) {
+          const refNumbers = cited.map(({ key, reference }) => {
+            if (!seenRefs.has(key)) {
+              // A paper cited under another key (e.g. its preprint elsewhere) keeps its first number
+              const existing = references.findIndex(ref => sameReference(ref, reference));
+              if (existing === -1) references.push(reference);
+              seenRefs.set(key, existing === -1 ? references.length : existing + 1);
+            }
+            return seenRefs.get(key)!;
+          });
+          segments.push({ kind: 'citation', searchId, refNumbers });
+        }
+      } else {
+        el.childNodes.forEach(child => processNode(child));
+        if (BLOCK_TAGS.includes(el.tagName)) {
+          segments.push({ kind: 'break' });
+        }
+      }
+    }
+  };
+
+  root.childNodes.forEach(child => processNode(child));
+  return { segments, references };
+};
+
+// Text nodes keep the editor's newlines (white-space: pre-wrap), so split them as well as block breaks
+export const toBlocks = (segments: ManuscriptSegment[]): ManuscriptBlock[] => {
+  const blocks: ManuscriptBlock[] = [];
+  let current: InlineSegment[] = [];
+
+  const flush = () => {
+    if (current.some(item => item.kind !== 'text' || item.text.trim())) {
+      const content = [...current];
+      const last = content.length - 1;
+      if (content[0].kind === 'text') content[0] = { kind: 'text', text: content[0].text.trimStart() };
+      if (content[last].kind === 'text') content[last] = { kind: 'text', text: content[last].text.trimEnd() };
+      blocks.push({ kind: 'paragraph', content });
+    }
+    current = [];
+  };
+
+  segments.forEach(segment => {
+    if (segment.kind === 'break') {
+      flush();
+    } else if (segment.kind === 'heading') {
+      flush();
+      blocks.push(segment);
+    } else if (segment.kind === 'text') {
+      segment.text.split('\n').forEach((line, i) => {
+        if (i > 0) flush();
+        if (line) current.push({ kind: 'text', text: line });
+      });
+    } else {
+      current.push(segment);
+    }
+  });
+  flush();
+  return blocks;
+};
+
+// Superscript citations attach directly to the text; the others are separated by a space
+export const citationRuns = (
+  segment: Extract<ManuscriptSegment, { kind: 'citation' }>,
+  references: Reference[],
+  style: CitationStyle
+): FormattedRun[] => {
+  const runs = style.formatCitation(segment.refNumbers, references);
+  return runs[0]?.superscript ? runs : [{ text: ' ' }, ...runs];
+};
+
+export const renderManuscriptText = ({ segments, references }: CitedManuscript, style: CitationStyle): string => {
+  let exportContent = "";
+  segments.forEach(segment => {
+    if (segment.kind === 'text' || segment.kind === 'existingCitation') exportContent += segment.text;
+    else if (segment.kind === 'break') exportContent += '\n';
+    else if (segment.kind === 'heading') exportContent += `${exportContent && !exportContent.endsWith('\n') ? '\n' : ''}${segment.text}\n`;
+    else exportContent += runsToText(citationRuns(segment, references, style));
+  });
+
+  const formattedRefs = formatBibliography(references, style)
+    .map(entry => `${entry.label ? `${entry.label} ` : ''}${runsToText(entry.runs)}`);
+
+  return `${exportContent.trim()}\n\nReferences:\n${formattedRefs.join('\n')}`;
+};
+
+// Rich output keeps italics/superscripts; Word and Google Docs open it directly
+export const renderManuscriptHtml = ({ segments, references }: CitedManuscript, style: CitationStyle): string => {
+  const body = toBlocks(segments)
+    .map(block => {
+      if (block.kind === 'heading') return `<h${block.level}>${escapeHtml(block.text)}</h${block.level}>`;
+      const html = block.content
+        .map(item => (item.kind === 'citation' ? runsToHtml(citationRuns(item, references, style)) : escapeHtml(item.text)))
+        .join('');
+      return `<p>${html}</p>`;
+    })
+    .join('\n');
+
+  const entries = formatBibliography(references, style)
+    .map(entry => `<p class="ref">${entry.label ? `${escapeHtml(entry.label)} ` : ''}${runsToHtml(entry.runs)}</p>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Manuscript</title>
+<style>body { font-family: "Times New Roman", serif; max-width: 48em; margin: 2em auto; line-height: 1.6; } .ref { padding-left: 2em; text-indent: -2em; }</style>
+</head>
+<body>
+${body}
+<h2>References</h2>
+${entries}
+</body>
+</html>
+`;
+};
+
+const LATEX_SECTIONS = ['section', 'subsection', 'subsubsection'];
+
+type ExistingCitation = Extract<ManuscriptSegment, { kind: 'existingCitation' }>;
+
+// Citations imported from LaTeX or Pandoc carry real BibTeX keys; numeric ones don't
+const hasBibKeys = (segment: ExistingCitation): boolean =>
+  /^\\[a-zA-Z]*cite/.test(segment.text) || segment.text.includes('@');
+
+const existingCitationLatex = (segment: ExistingCitation): string => {
+  if (/^\\[a-zA-Z]*cite/.test(segment.text)) return segment.text;
+  if (hasBibKeys(segment)) return `\\cite{${segment.keys.join(',')}}`;
+  return escapeLatex(segment.text);
+};
+
+// Keys cited by the imported draft, in order of first use
+const importedCitationKeys = (segments: ManuscriptSegment[]): string[] => [
+  ...new Set(segments
+    .filter((segment): segment is ExistingCitation => segment.kind === 'existingCitation' && hasBibKeys(segment))
+    .flatMap(segment => segment.keys.map(key => key.trim()).filter(Boolean))),
+];
+
+// A free key for `base`, with the same a/b/c suffixes generateCitationKeys uses
+const suffixedKey = (base: string, taken: Set<string>): string => {
+  for (let n = 0; ; n++) {
+    const key = `${base}${String.fromCharCode(97 + (n % 26))}${n >= 26 ? Math.floor(n / 26) : ''}`;
+    if (!taken.has(key)) return key;
+  }
+};
+
+// Keys for the cited references: the key an imported library gave the paper, so a paper the draft already
+// cites keeps one entry; otherwise the generated key, renamed where it clashes with a key the draft cites
+const latexCitationKeys = (references: Reference[], importedKeys: string[], library: LibraryEntry[]): string[] => {
+  const generated = generateCitationKeys(references);
+  const own = references.map(ref => findLibraryEntry(library, ref)?.citationKey);
+  const reserved = new Set([...importedKeys, ...own.filter((key): key is string => !!key)]);
+  const taken = new Set([...reserved, ...generated]);
+  return references.map((_, i) => {
+    const key = own[i];
+    if (key) return key;
+    if (!reserved.has(generated[i])) return generated[i];
+    const renamed = suffixedKey(generated[i], taken);
+    taken.add(renamed);
+    return renamed;
+  });
+};
+
+export const renderManuscriptLatex = (
+  { segments, references }: CitedManuscript,
+  keys: string[] = generateCitationKeys(references),
+  missingKeys: string[] = []
+): string => {
+  let body = "";
+
+  segments.forEach(segment => {
+    if (segment.kind === 'text') body += escapeLatex(segment.text);
+    else if (segment.kind === 'break') body += '\n\n';
+    else if (segment.kind === 'heading') body += `\n\n\\${LATEX_SECTIONS[segment.level - 1] || 'section'}{${escapeLatex(segment.text)}}\n\n`;
+    else if (segment.kind === 'existingCitation') body += existingCitationLatex(segment);
+    else body += `~\\cite{${segment.refNumbers.map(n => keys[n - 1]).join(',')}}`;
+  });
+
+  // Editor lines are paragraphs in LaTeX; collapse the blank lines between them
+  body = body.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+
+  // Kept where a reader of the .tex file will see it
+  const warning = missingKeys.length > 0
+    ? `% WARNING: the imported draft cites keys whose entries were not available: ${missingKeys.join(', ')}.\n% imported.bib holds placeholders for them; replace them with the original entries.\n`
+    : '';
+
+  return `${warning}\\documentclass{article}
+\\usepackage[utf8]{inputenc}
+\\usepackage[T1]{fontenc}
+\\usepackage{hyperref}
+
+\\begin{document}
+
+${body}
+
+\\bibliographystyle{unsrt}
+\\bibliography{${missingKeys.length > 0 ? 'references,imported' : 'references'}}
+
+\\end{document}
+`;
+};
+
+// Stands in for an entry of the original bibliography, so the project compiles and the gap shows in the PDF
+const placeholderEntry = (key: string): string =>
+  `@misc{${key},\n  note = {Missing entry: cited in the imported draft, not found in the SciRef library}\n}`;
+
+export interface LatexBundle {
+  zip: Uint8Array;
+  missingKeys: string[]; // Keys the imported draft cites that have no entry in the bundle
+}
+
+// main.tex + references.bib, ready to upload to Overleaf as a project. Keys the imported draft already cites
+// get their entries from the library where an imported library has them, and a placeholder in imported.bib otherwise.
+export const createLatexBundle = (cited: CitedManuscript, library: LibraryEntry[] = []): LatexBundle => {
+  const draftKeys = importedCitationKeys(cited.segments);
+  const keys = latexCitationKeys(cited.references, draftKeys, library);
+  // Keys of cited papers already have their entry in references.bib
+  const imported = draftKeys.filter(key => !keys.includes(key));
+  const known = imported
+    .map(key => library.find(entry => entry.citationKey === key))
+    .filter((entry): entry is LibraryEntry => !!entry);
+  const missingKeys = imported.filter(key => !known.some(entry => entry.citationKey === key));
+
+  const references = toBibTeX(cited.references, keys);
+  const files = [
+    { name: 'main.tex', content: renderManuscriptLatex(cited, keys, missingKeys) },
+    {
+      name: 'references.bib',
+      content: known.length > 0
+        ? `${references}\n${toBibTeX(known.map(entry => entry.reference), known.map(entry => entry.citationKey as string))}`
+        : references,
+    },
+  ];
+  if (missingKeys.length > 0) files.push({ name: 'imported.bib', content: `${missingKeys.map(placeholderEntry).join('\n\n')}\n` });
+  return { zip: createZip(files), missingKeys };
+};
+
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,209 @@
+import { Reference, ProviderId, ProviderRequest, ProviderResult, ReferenceProvider, SortPriority, SupportStance, VerificationStatus } from "../types";
+import { sameTitle } from "./referenceIdentity";
+
+// Same batch size as the Gemini provider so the pool/refill logic behaves identically
+const FETCH_BATCH_SIZE = 7;
+
+// A small, fixed library of real papers around self-driving labs and optimization.
+// Used to run the whole UI offline and deterministically (demos, tests, no quota).
+const FIXTURE_LIBRARY: Reference[] = [
+  {
+    title: "Next-Generation Experimentation with Self-Driving Laboratories",
+    authors: ["Florian Häse", "Loïc M. Roch", "Alán Aspuru-Guzik"],
+    year: "2019",
+    publication: "Trends in Chemistry",
+    url: "https://doi.org/10.1016/j.trechm.2019.02.007",
+    doi: "10.1016/j.trechm.2019.02.007",
+    summary: "Perspective on closed-loop laboratories that combine automation with AI-driven experiment planning.",
+    relevance: "Introduces the self-driving lab concept and its closed-loop operation.",
+    citationCount: 450,
+  },
+  {
+    title: "A mobile robotic chemist",
+    authors: ["Benjamin Burger", "Phillip M. Maffettone", "Vladimir V. Gusev", "et al."],
+    year: "2020",
+    publication: "Nature",
+    url: "https://doi.org/10.1038/s41586-020-2442-2",
+    doi: "10.1038/s41586-020-2442-2",
+    summary: "A mobile robot autonomously ran 688 experiments over eight days to optimize a photocatalyst using Bayesian search.",
+    relevance: "Landmark demonstration of autonomous, closed-loop experimentation with minimal human intervention.",
+    citationCount: 900,
+  },
+  {
+    title: "Self-driving laboratory for accelerated discovery of thin-film materials",
+    authors: ["B. P. MacLeod", "F. G. L. Parlane", "T. D. Morrissey", "et al."],
+    year: "2020",
+    publication: "Science Advances",
+    url: "https://doi.org/10.1126/sciadv.aaz8867",
+    doi: "10.1126/sciadv.aaz8867",
+    summary: "A modular robotic platform (Ada) that autonomously optimizes thin-film synthesis and characterization.",
+    relevance: "Shows robotics plus ML optimization closing the synthesis–characterization loop.",
+    citationCount: 500,
+  },
+  {
+    title: "Autonomous experimentation systems for materials development: A community perspective",
+    authors: ["Eric Stach", "Brian DeCost", "A. Gilad Kusne", "et al."],
+    year: "2021",
+    publication: "Matter",
+    url: "https://doi.org/10.1016/j.matt.2021.06.036",
+    doi: "10.1016/j.matt.2021.06.036",
+    summary: "Community roadmap for autonomous experimentation in materials science, covering hardware, software and data.",
+    relevance: "Reviews automation and ML integration in autonomous materials labs.",
+    citationCount: 250,
+  },
+  {
+    title: "Autonomous Discovery in the Chemical Sciences Part I: Progress",
+    authors: ["Connor W. Coley", "Natalie S. Eyke", "Klavs F. Jensen"],
+    year: "2020",
+    publication: "Angewandte Chemie International Edition",
+    url: "https://doi.org/10.1002/anie.201909987",
+    doi: "10.1002/anie.201909987",
+    summary: "Review of progress toward autonomous discovery, including automated synthesis, flow chemistry and algorithmic planning.",
+    relevance: "Covers flow/microfluidic automation and the decision-making step in chemical discovery.",
+    citationCount: 400,
+  },
+  {
+    title: "Phoenics: A Bayesian Optimizer for Chemistry",
+    authors: ["Florian Häse", "Loïc M. Roch", "Christoph Kreisbeck", "Alán Aspuru-Guzik"],
+    year: "2018",
+    publication: "ACS Central Science",
+    url: "https://doi.org/10.1021/acscentsci.8b00307",
+    doi: "10.1021/acscentsci.8b00307",
+    summary: "A Bayesian optimization algorithm tailored to experiment planning in automated chemistry.",
+    relevance: "Bayesian optimization for recommending next experimental conditions in self-driving labs.",
+    citationCount: 350,
+  },
+  {
+    title: "Bayesian reaction optimization as a tool for chemical synthesis",
+    authors: ["Benjamin J. Shields", "Jason Stevens", "Jun Li", "et al."],
+    year: "2021",
+    publication: "Nature",
+    url: "https://doi.org/10.1038/s41586-021-03213-y",
+    doi: "10.1038/s41586-021-03213-y",
+    summary: "Benchmarks Bayesian optimization against human experts for reaction optimization and releases the EDBO tool.",
+    relevance: "Evidence that ML algorithms efficiently infer reaction condition–outcome relationships.",
+    citationCount: 700,
+  },
+  {
+    title: "Accelerating the discovery of materials for clean energy in the era of smart automation",
+    authors: ["Daniel P. Tabor", "Loïc M. Roch", "Semion K. Saikin", "et al."],
+    year: "2018",
+    publication: "Nature Reviews Materials",
+    url: "https://doi.org/10.1038/s41578-018-0005-z",
+    doi: "10.1038/s41578-018-0005-z",
+    summary: "Review of how automation, high-throughput experimentation and ML accelerate materials discovery.",
+    relevance: "Motivates integrating automation and machine learning for materials synthesis.",
+    citationCount: 800,
+  },
+  {
+    title: "Machine learning for molecular and materials science",
+    authors: ["Keith T. Butler", "Daniel W. Davies", "Hugh Cartwright", "et al."],
+    year: "2018",
+    publication: "Nature",
+    url: "https://doi.org/10.1038/s41586-018-0337-2",
+    doi: "10.1038/s41586-018-0337-2",
+    summary: "Overview of machine learning methods and their applications in chemistry and materials science.",
+    relevance: "General reference for machine learning (ML) in materials and chemical research.",
+    citationCount: 2500,
+  },
+  {
+    title: "Taking the Human Out of the Loop: A Review of Bayesian Optimization",
+    authors: ["Bobak Shahriari", "Kevin Swersky", "Ziyu Wang", "et al."],
+    year: "2016",
+    publication: "Proceedings of the IEEE",
+    url: "https://doi.org/10.1109/JPROC.2015.2494218",
+    doi: "10.1109/jproc.2015.2494218",
+    summary: "Tutorial review of Bayesian optimization, surrogate models and acquisition functions.",
+    relevance: "Standard reference for Bayesian optimization (BO).",
+    citationCount: 5000,
+  },
+  {
+    title: "Completely Derandomized Self-Adaptation in Evolution Strategies",
+    authors: ["Nikolaus Hansen", "Andreas Ostermeier"],
+    year: "2001",
+    publication: "Evolutionary Computation",
+    url: "https://doi.org/10.1162/106365601750190398",
+    doi: "10.1162/106365601750190398",
+    summary: "Introduces the covariance matrix adaptation evolution strategy (CMA-ES).",
+    relevance: "Original reference for the CMA-ES algorithm.",
+    citationCount: 5500,
+  },
+  {
+    title: "SNOBFIT -- Stable Noisy Optimization by Branch and Fit",
+    authors: ["Waltraud Huyer", "Arnold Neumaier"],
+    year: "2008",
+    publication: "ACM Transactions on Mathematical Software",
+    url: "https://doi.org/10.1145/1377612.1377613",
+    doi: "10.1145/1377612.1377613",
+    summary: "A derivative-free algorithm for bound-constrained optimization of noisy, expensive functions.",
+    relevance: "Original reference for the SNOBFIT algorithm.",
+    citationCount: 300,
+  },
+];
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 2);
+
+// Word overlap between the claim (weighted) plus its context and the paper's text.
+// A "more like this" seed counts like the claim.
+const scoreReference = (ref: Reference, request: ProviderRequest): number => {
+  const refWords = new Set(tokenize(`${ref.title} ${ref.summary} ${ref.relevance} ${ref.publication}`));
+  const highlighted = tokenize(request.context.highlightedText);
+  const preceding = tokenize(request.context.precedingContext);
+  const seed = request.seed ? tokenize(`${request.seed.title} ${request.seed.summary} ${request.seed.publication}`) : [];
+
+  return (highlighted.filter(w => refWords.has(w)).length + seed.filter(w => refWords.has(w)).length) * 3
+    + preceding.filter(w => refWords.has(w)).length;
+};
+
+const searchFixtures = async (request: ProviderRequest): Promise<ProviderResult> => {
+  const { prefs } = request;
+  const minYear = parseInt(prefs.yearStart) || 0;
+  const excluded = prefs.excludeTitles || [];
+
+  const candidates = FIXTURE_LIBRARY
+    .filter(ref => (parseInt(ref.year) || 0) >= minYear)
+    .filter(ref => !excluded.some(title => sameTitle(title, ref.title)))
+    .map(ref => ({ ref, score: scoreReference(ref, request) }));
+
+  // Stable ordering: score first, then the requested priority, then title
+  candidates.sort((a, b) => {
+    if (b.score !== a.score) return b.score - a.score;
+    if (prefs.priority === SortPriority.NEWEST) {
+      const diff = parseInt(b.ref.year) - parseInt(a.ref.year);
+      if (diff !== 0) return diff;
+    } else if (prefs.priority === SortPriority.MOST_CITED) {
+      const diff = (b.ref.citationCount || 0) - (a.ref.citationCount || 0);
+      if (diff !== 0) return diff;
+    }
+    return a.ref.title.localeCompare(b.ref.title);
+  });
+
+  // The fixtures hold no disputing papers; the next-best matches stand in for counter-evidence
+  const offset = request.counterEvidence ? FETCH_BATCH_SIZE : 0;
+  return { references: candidates.slice(offset, offset + FETCH_BATCH_SIZE).map(c => ({ ...c.ref })), rejected: [] };
+};
+
+// Offline stand-in for the model's judgement: the share of the claim's words the paper's summary covers
+const assessFixtures = async (references: Reference[], request: ProviderRequest): Promise<Reference[]> => {
+  const claim = [...new Set(tokenize(request.context.highlightedText))];
+  return references.map(ref => {
+    const refWords = new Set(tokenize(`${ref.title} ${ref.summary}`));
+    const coverage = claim.length > 0 ? claim.filter(w => refWords.has(w)).length / claim.length : 0;
+    const stance = coverage >= 0.3 ? SupportStance.SUPPORTS : coverage >= 0.1 ? SupportStance.PARTIAL : SupportStance.UNRELATED;
+    return { ...ref, support: { stance, confidence: Math.round(Math.min(0.9, 0.4 + coverage) * 100) / 100, quote: ref.summary } };
+  });
+};
+
+export const fixtureProvider: ReferenceProvider = {
+  id: ProviderId.FIXTURE,
+  name: 'Offline Fixtures',
+  search: searchFixtures,
+  // Fixture entries are curated with their registry metadata, so they are verified by construction
+  verify: async (references) => references.map(ref => ({
+    ...ref,
+    verification: { status: VerificationStatus.VERIFIED },
+  })),
+  fetchMore: searchFixtures,
+  assessSupport: assessFixtures,
+};
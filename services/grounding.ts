@@ -0,0 +1,96 @@
+import { GroundingMetadata } from "@google/genai";
+import { GroundingSource, Reference, SearchGrounding } from "../types";
+
+// Provenance from Google Search grounding: the queries the model ran, the pages it consulted,
+// and which of those pages back which reference. The grounding metadata ties pages to spans of the
+// response text, so each span is credited to the reference whose JSON object it falls in.
+
+const MAX_SOURCES = 5; // Per reference
+
+const sameUri = (a: GroundingSource, b: GroundingSource): boolean => a.uri === b.uri;
+
+// Adds sources not already listed; a repeated source keeps its highest confidence
+const addSources = (list: GroundingSource[], sources: GroundingSource[]): GroundingSource[] =>
+  sources.reduce<GroundingSource[]>((acc, source) => {
+    const existing = acc.find(s => sameUri(s, source));
+    if (!existing) return [...acc, source];
+    if ((source.confidence ?? 0) <= (existing.confidence ?? 0)) return acc;
+    return acc.map(s => (s === existing ? { ...s, confidence: source.confidence } : s));
+  }, [...list]);
+
+const byConfidence = (a: GroundingSource, b: GroundingSource): number => (b.confidence ?? 0) - (a.confidence ?? 0);
+
+// Where each reference starts in the response text, found through its title as the JSON encodes it.
+// A reference whose title cannot be found (e.g. it was cleaned up by validation) gets no span.
+const referenceStarts = (text: string, references: Reference[]): { index: number; start: number }[] =>
+  references
+    .map((ref, index) => ({ index, start: text.indexOf(JSON.stringify(ref.title).slice(1, -1)) }))
+    .filter(entry => entry.start >= 0)
+    .sort((a, b) => a.start - b.start);
+
+// The reference a span of the response belongs to: the last one whose title comes before the span
+const ownerOf = (starts: { index: number; start: number }[], position: number): number | undefined => {
+  let owner: number | undefined;
+  for (const entry of starts) {
+    if (entry.start > position) break;
+    owner = entry.index;
+  }
+  return owner;
+};
+
+// Reads the grounding metadata of one response: the search-wide queries and pages, and on each reference
+// the pages tied to it. Without grounding metadata the references are returned as they are.
+export const applyGrounding = (
+  references: Reference[],
+  text: string,
+  metadata?: GroundingMetadata,
+): { references: Reference[]; grounding?: SearchGrounding } => {
+  if (!metadata) return { references };
+
+  const searchSources: GroundingSource[] = (metadata.groundingChunks || [])
+    .map(chunk => ({ title: chunk.web?.title || chunk.web?.domain || chunk.web?.uri || '', uri: chunk.web?.uri || '' }));
+  const starts = referenceStarts(text, references);
+  const backing = new Map<number, GroundingSource[]>();
+
+  (metadata.groundingSupports || []).forEach(support => {
+    const segment = support.segment?.text;
+    const position = segment ? text.indexOf(segment) : -1;
+    if (position < 0) return;
+    const owner = ownerOf(starts, position);
+    if (owner === undefined) return;
+
+    const sources = (support.groundingChunkIndices || [])
+      .map((chunkIndex, i): GroundingSource | undefined => {
+        const source = searchSources[chunkIndex];
+        return source?.uri ? { ...source, confidence: support.confidenceScores?.[i] } : undefined;
+      })
+      .filter((source): source is GroundingSource => !!source);
+    backing.set(owner, addSources(backing.get(owner) || [], sources));
+  });
+
+  return {
+    references: references.map((ref, i) => ({
+      ...ref,
+      groundingSources: (backing.get(i) || []).sort(byConfidence).slice(0, MAX_SOURCES),
+    })),
+    grounding: {
+      queries: metadata.webSearchQueries || [],
+      sources: addSources([], searchSources.filter(source => source.uri)),
+    },
+  };
+};
+
+// Pages behind two copies of the same paper
+export const mergeGroundingSources = (a?: GroundingSource[], b?: GroundingSource[]): GroundingSource[] | undefined => {
+  if (!a || !b) return a || b;
+  return addSources(a, b).sort(byConfidence).slice(0, MAX_SOURCES);
+};
+
+// The searches behind a result list and its refills
+export const mergeGrounding = (a?: SearchGrounding, b?: SearchGrounding): SearchGrounding | undefined => {
+  if (!a || !b) return a || b;
+  return {
+    queries: [...new Set([...a.queries, ...b.queries])],
+    sources: addSources(a.sources, b.sources),
+  };
+};
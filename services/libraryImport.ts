@@ -0,0 +1,277 @@
+import { Reference } from "../types";
+import { extractDoi } from "./referenceIdentity";
+
+// Reads reference-manager exports (BibTeX from Zotero/JabRef/Mendeley, CSL-JSON from Zotero)
+// into references for the library. Entries without a title are skipped and counted.
+
+export const LIBRARY_FILE_EXTENSIONS = ['.bib', '.json'];
+
+export interface ImportedReference {
+  reference: Reference;
+  citationKey?: string;
+  tags: string[];
+}
+
+export interface LibraryImport {
+  items: ImportedReference[];
+  skipped: number;
+}
+
+const collapseWhitespace = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+const splitKeywords = (value?: string): string[] =>
+  (value || '').split(/[,;]/).map(collapseWhitespace).filter(Boolean);
+
+const doiUrl = (doi?: string): string => (doi ? `https://doi.org/${doi}` : '');
+
+// --- BibTeX ---
+
+// Accents and symbols that reference managers commonly escape; accents become combining marks
+const LATEX_ACCENTS: Record<string, string> = {
+  '"': '\u0308', "'": '\u0301', '`': '\u0300', '^': '\u0302', '~': '\u0303',
+  '=': '\u0304', '.': '\u0307', 'c': '\u0327', 'v': '\u030c', 'u': '\u0306', 'H': '\u030b',
+};
+const LATEX_SYMBOLS: Record<string, string> = {
+  ss: 'ß', o: 'ø', O: 'Ø', ae: 'æ', AE: 'Æ', aa: 'å', AA: 'Å', l: 'ł', L: 'Ł', i: 'ı',
+};
+
+// Turns a field value into plain text: accents, escaped characters and formatting commands
+export const latexToText = (value: string): string =>
+  collapseWhitespace(
+    value
+      .replace(/\\([cvuH])\s+(\w)/g, (_, accent, ch) => `${ch}${LATEX_ACCENTS[accent]}`)
+      .replace(/\\(["'`^~=.cvuH])\s*\{?\\?(\w)\}?/g, (_, accent, ch) => `${ch}${LATEX_ACCENTS[accent]}`)
+      .replace(/\\(ss|ae|AE|aa|AA|o|O|l|L|i)\b\s*(?:\{\})?/g, (_, name) => LATEX_SYMBOLS[name])
+      .replace(/\\[a-zA-Z]+\*?\s*\{([^{}]*)\}/g, '$1') // \emph{x}, \textit{x}
+      .replace(/\\([&%$#_{}])/g, '$1')
+      .replace(/---/g, '—')
+      .replace(/--/g, '–')
+      .replace(/~/g, ' ')
+      .replace(/[{}]/g, '')
+  ).normalize('NFC');
+
+// Reads one field value: {braced}, "quoted", a number or a @string macro, joined with #
+const readValue = (source: string, start: number, macros: Record<string, string>): { value: string; end: number } => {
+  let i = start;
+  let value = '';
+
+  while (i < source.length) {
+    while (/\s/.test(source[i] || '')) i++;
+    const ch = source[i];
+
+    if (ch === '{' || ch === '"') {
+      const close = ch === '{' ? '}' : '"';
+      let depth = 0;
+      let j = i + 1;
+      for (; j < source.length; j++) {
+        const c = source[j];
+        if (c === '\\') { j++; continue; }
+        if (c === '{') depth++;
+        else if (c === '}' && depth > 0) depth--;
+        else if (c === close && depth === 0) break;
+      }
+      value += source.slice(i + 1, j);
+      i = j + 1;
+    } else {
+      const match = /^[^\s,#}]+/.exec(source.slice(i));
+      const token = match ? match[0] : '';
+      value += /^\d+$/.test(token) ? token : (macros[token.toLowerCase()] ?? token);
+      i += token.length;
+    }
+
+    while (/\s/.test(source[i] || '')) i++;
+    if (source[i] !== '#') break;
+    i++;
+  }
+  return { value, end: i };
+};
+
+// Fields of one entry body, starting after the opening brace
+const readFields = (source: string, start: number, macros: Record<string, string>): { fields: Record<string, string>; end: number } => {
+  const fields: Record<string, string> = {};
+  let i = start;
+
+  while (i < source.length) {
+    while (/[\s,]/.test(source[i] || '')) i++;
+    if (source[i] === '}' || source[i] === ')') return { fields, end: i + 1 };
+
+    const name = /^([\w.:-]+)\s*=\s*/.exec(source.slice(i));
+    if (!name) {
+      // Not a field: skip to the next comma or the end of the entry
+      const next = source.slice(i).search(/[,}]/);
+      if (next < 0) break;
+      i += next + (source[i + next] === ',' ? 1 : 0);
+      if (source[i] === '}') return { fields, end: i + 1 };
+      continue;
+    }
+    i += name[0].length;
+    const { value, end } = readValue(source, i, macros);
+    fields[name[1].toLowerCase()] = value;
+    i = end;
+  }
+  return { fields, end: i };
+};
+
+// "Family, Given" and "Given Family" both become "Given Family"; {Braced Names} stay whole
+const bibAuthors = (value?: string): string[] => {
+  if (!value) return [];
+  const names: string[] = [];
+  let depth = 0;
+  let current = '';
+  const words = value.split(/(\s+and\s+|[{}])/i);
+  words.forEach(part => {
+    if (part === '{') depth++;
+    if (part === '}') depth--;
+    if (depth === 0 && /^\s+and\s+$/i.test(part)) {
+      names.push(current);
+      current = '';
+    } else {
+      current += part;
+    }
+  });
+  names.push(current);
+
+  return names
+    .map(name => {
+      if (/^\s*others\s*$/i.test(name)) return 'et al.';
+      const braced = /^\s*\{([^{}]*)\}\s*$/.exec(name);
+      if (braced) return latexToText(braced[1]);
+      const text = latexToText(name);
+      const comma = text.indexOf(',');
+      return comma < 0 ? text : collapseWhitespace(`${text.slice(comma + 1)} ${text.slice(0, comma)}`);
+    })
+    .filter(Boolean);
+};
+
+export const parseBibTeX = (source: string): LibraryImport => {
+  const items: ImportedReference[] = [];
+  const macros: Record<string, string> = {};
+  let skipped = 0;
+
+  const entryStart = /@(\w+)\s*[{(]/g;
+  let match: RegExpExecArray | null;
+  while ((match = entryStart.exec(source))) {
+    const type = match[1].toLowerCase();
+    let i = entryStart.lastIndex;
+
+    if (type === 'comment' || type === 'preamble') continue;
+    if (type === 'string') {
+      const { fields, end } = readFields(source, i, macros);
+      Object.entries(fields).forEach(([name, value]) => { macros[name] = value; });
+      entryStart.lastIndex = end;
+      continue;
+    }
+
+    const keyEnd = source.indexOf(',', i);
+    if (keyEnd < 0) break;
+    const citationKey = source.slice(i, keyEnd).trim();
+    i = keyEnd + 1;
+
+    const { fields, end } = readFields(source, i, macros);
+    entryStart.lastIndex = end;
+
+    const title = latexToText(fields.title || '');
+    if (!title) {
+      skipped++;
+      continue;
+    }
+    const doi = fields.doi ? (extractDoi(fields.doi) || fields.doi.trim()) : undefined;
+    const year = ((fields.year || fields.date || '').match(/\d{4}/) || [''])[0];
+
+    items.push({
+      citationKey: citationKey || undefined,
+      tags: splitKeywords(latexToText(fields.keywords || '')),
+      reference: {
+        title,
+        authors: bibAuthors(fields.author || fields.editor),
+        year,
+        publication: latexToText(fields.journal || fields.journaltitle || fields.booktitle || fields.publisher || fields.school || fields.institution || ''),
+        url: fields.url?.trim() || doiUrl(doi),
+        summary: latexToText(fields.abstract || ''),
+        relevance: '',
+        doi,
+      },
+    });
+  }
+  return { items, skipped };
+};
+
+// --- CSL-JSON ---
+
+// Fields of a parsed CSL-JSON item, still unchecked
+type CslRecord = Record<string, unknown>;
+
+const asRecord = (value: unknown): CslRecord =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as CslRecord) : {};
+
+// CSL-JSON writers differ on whether numbers are quoted; anything else is treated as absent
+const cslText = (value: unknown): string =>
+  typeof value === 'string' || typeof value === 'number' ? String(value) : '';
+
+const cslYear = (value: unknown): string => {
+  const date = asRecord(value);
+  const parts = Array.isArray(date['date-parts']) ? date['date-parts'][0] : undefined;
+  const part = Array.isArray(parts) ? cslText(parts[0]) : '';
+  if (part) return part;
+  return ((cslText(date.raw) || cslText(date.literal)).match(/\d{4}/) || [''])[0];
+};
+
+const cslAuthors = (names: unknown): string[] =>
+  (Array.isArray(names) ? names : [])
+    .map(asRecord)
+    .map(name => cslText(name.literal) || collapseWhitespace(`${cslText(name.given)} ${cslText(name['non-dropping-particle'])} ${cslText(name.family)}`))
+    .filter(Boolean);
+
+const cslKeywords = (value: unknown): string | undefined =>
+  Array.isArray(value) ? value.filter(keyword => typeof keyword === 'string').join(',') : typeof value === 'string' ? value : undefined;
+
+export const parseCslJson = (source: string): LibraryImport => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(source);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+  const wrapped = asRecord(raw).items;
+  const records: unknown[] = Array.isArray(raw) ? raw : Array.isArray(wrapped) ? wrapped : [];
+  if (records.length === 0 && !Array.isArray(raw)) {
+    throw new Error("This file is not a CSL-JSON library (expected a list of items).");
+  }
+
+  const items: ImportedReference[] = [];
+  let skipped = 0;
+  records.map(asRecord).forEach(record => {
+    const title = collapseWhitespace(cslText(record.title));
+    if (!title) {
+      skipped++;
+      return;
+    }
+    const doi = cslText(record.DOI).trim() || undefined;
+    const citationKey = typeof record['citation-key'] === 'string' ? record['citation-key'].trim() : '';
+    const url = typeof record.URL === 'string' ? record.URL.trim() : '';
+
+    items.push({
+      citationKey: citationKey || (typeof record.id === 'string' ? record.id : undefined),
+      tags: splitKeywords(cslKeywords(record.keyword)),
+      reference: {
+        title,
+        authors: cslAuthors(record.author || record.editor),
+        year: cslYear(record.issued),
+        publication: collapseWhitespace(cslText(record['container-title']) || cslText(record.publisher)),
+        url: url || doiUrl(doi),
+        summary: collapseWhitespace(cslText(record.abstract)),
+        relevance: '',
+        doi,
+      },
+    });
+  });
+  return { items, skipped };
+};
+
+export const importLibraryFile = async (file: File): Promise<LibraryImport> => {
+  const name = file.name.toLowerCase();
+  const text = await file.text();
+  if (name.endsWith('.bib')) return parseBibTeX(text);
+  if (name.endsWith('.json')) return parseCslJson(text);
+  throw new Error(`Unsupported library file "${file.name}". Use BibTeX (.bib) or CSL-JSON (.json).`);
+};
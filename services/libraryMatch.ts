@@ -0,0 +1,70 @@
+import { LibraryEntry, LibraryMatch, SelectionContext } from "../types";
+
+// Ranks library entries against a highlighted claim, entirely in the browser.
+// Scores are TF-IDF style: terms shared with the claim count more when few entries contain them,
+// and a match in the title or tags counts more than one in the abstract.
+
+export const MAX_LIBRARY_MATCHES = 3;
+const MIN_COVERAGE = 0.2; // Share of the claim's term weight an entry must match
+const MIN_MATCHED_TERMS = 2;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'these', 'those', 'from', 'into', 'onto', 'are', 'was', 'were',
+  'been', 'being', 'has', 'have', 'had', 'its', 'their', 'our', 'which', 'while', 'such', 'than', 'then',
+  'also', 'can', 'may', 'might', 'not', 'but', 'both', 'between', 'over', 'under', 'via', 'using', 'used',
+  'use', 'based', 'study', 'studies', 'paper', 'work', 'results', 'new', 'approach', 'method', 'methods',
+  'however', 'thereby', 'therefore', 'thus', 'each', 'other', 'more', 'most', 'many', 'several', 'well',
+]);
+
+// Lowercased words of three letters or more, without a plural "s"
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').match(/[a-z0-9][a-z0-9-]*[a-z0-9]/g) || [])
+    .filter(word => word.length >= 3 && !STOP_WORDS.has(word) && !/^\d+$/.test(word))
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+
+// Field weights: where a term appears in the entry
+const entryTerms = (entry: LibraryEntry): Map<string, number> => {
+  const terms = new Map<string, number>();
+  const add = (text: string, weight: number) =>
+    tokenize(text).forEach(term => terms.set(term, Math.max(terms.get(term) || 0, weight)));
+  add(entry.reference.summary, 1);
+  add(entry.reference.publication, 0.5);
+  add(entry.tags.join(' '), 2);
+  add(entry.reference.title, 2);
+  return terms;
+};
+
+export const rankLibraryMatches = (
+  context: SelectionContext,
+  library: LibraryEntry[],
+  limit: number = MAX_LIBRARY_MATCHES
+): LibraryMatch[] => {
+  if (library.length === 0) return [];
+
+  // The claim counts fully; the sentence before it only helps to break ties
+  const claim = new Map<string, number>();
+  tokenize(context.precedingContext.slice(-200)).forEach(term => claim.set(term, 0.3));
+  tokenize(context.highlightedText).forEach(term => claim.set(term, 1));
+  if (claim.size === 0) return [];
+
+  const indexed = library.map(entry => ({ entry, terms: entryTerms(entry) }));
+  const documentFrequency = new Map<string, number>();
+  indexed.forEach(({ terms }) => terms.forEach((_, term) => {
+    if (claim.has(term)) documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+  }));
+  const idf = (term: string) => Math.log(1 + library.length / (1 + (documentFrequency.get(term) || 0)));
+
+  const maxScore = [...claim].reduce((sum, [term, weight]) => sum + weight * idf(term), 0);
+
+  return indexed
+    .map(({ entry, terms }) => {
+      const matched = [...claim.keys()].filter(term => terms.has(term));
+      const score = matched.reduce((sum, term) => sum + claim.get(term)! * idf(term) * Math.min(terms.get(term)!, 1.5), 0);
+      const coverage = maxScore > 0 ? score / maxScore : 0;
+      const strongTerms = matched.filter(term => claim.get(term) === 1);
+      return { entryId: entry.id, score: Math.round(coverage * 100) / 100, terms: strongTerms };
+    })
+    .filter(match => match.terms.length >= MIN_MATCHED_TERMS && match.score >= MIN_COVERAGE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
@@ -0,0 +1,285 @@
+import { CitationAnchor, EditorSnapshot, HeadingAnchor } from "./editorDocument";
+import { readZipTextFiles } from "./zip";
+
+// Importers turn Markdown, LaTeX and Word files into headings and paragraphs for the editor,
+// keeping existing citation markers so those claims are not searched again.
+
+type DocumentBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string };
+
+export const MANUSCRIPT_EXTENSIONS = ['.md', '.markdown', '.tex', '.docx', '.txt'];
+
+const extensionOf = (name: string): string => {
+  const idx = name.lastIndexOf('.');
+  return idx === -1 ? '' : name.slice(idx).toLowerCase();
+};
+
+export const isManuscriptFile = (name: string): boolean => MANUSCRIPT_EXTENSIONS.includes(extensionOf(name));
+
+const collapseWhitespace = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+// Split on blank lines; single newlines inside a paragraph are soft wraps
+const paragraphsFrom = (text: string): DocumentBlock[] =>
+  text
+    .split(/\n\s*\n/)
+    .map(collapseWhitespace)
+    .filter(Boolean)
+    .map(p => ({ type: 'paragraph' as const, text: p }));
+
+// --- Citation recognition ---
+
+const LATEX_CITE = /\\(?:[a-zA-Z]*cite[a-zA-Z]*)\*?(?:\[[^\]]*\]){0,2}\{([^}]+)\}/g;
+// A bracket with at least one `@key` at its start or after `;` or a space, so "[contact: me@lab.org]" is not a citation
+const PANDOC_CITE = /\[(?:[^[\]]*[;\s])?-?@[\w:.#$%&+?<>~/-]+[^[\]]*\]/g;
+const PANDOC_KEY = /(?<!\w)@([\w:.#$%&+?<>~/-]+)/g;
+const NUMERIC_CITE = /\[(\d+(?:\s*[-–,]\s*\d+)*)\]/g;
+
+const expandNumbers = (list: string): string[] =>
+  list.split(',').flatMap(part => {
+    const [from, to] = part.split(/[-–]/).map(n => parseInt(n.trim()));
+    if (to === undefined || isNaN(to) || to < from || to - from > 50) return [String(from)];
+    return Array.from({ length: to - from + 1 }, (_, i) => String(from + i));
+  });
+
+export const findCitations = (text: string): CitationAnchor[] => {
+  const anchors: CitationAnchor[] = [];
+  const add = (pattern: RegExp, keysOf: (match: RegExpExecArray) => string[]) => {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      // Patterns can overlap (e.g. "[@a; 1]"); the first one wins
+      if (anchors.some(a => start < a.end && end > a.start)) continue;
+      const keys = keysOf(match as RegExpExecArray).filter(Boolean);
+      if (keys.length > 0) anchors.push({ keys, start, end });
+    }
+  };
+
+  add(LATEX_CITE, m => m[1].split(',').map(k => k.trim()));
+  add(PANDOC_CITE, m => Array.from(m[0].matchAll(PANDOC_KEY), k => k[1].replace(/[.,;:]+$/, '')));
+  add(NUMERIC_CITE, m => expandNumbers(m[1]));
+  return anchors.sort((a, b) => a.start - b.start);
+};
+
+const toSnapshot = (blocks: DocumentBlock[]): EditorSnapshot => {
+  let text = '';
+  const headings: HeadingAnchor[] = [];
+
+  blocks.forEach(block => {
+    if (block.type === 'heading') {
+      const start = text.length;
+      text += `${block.text}\n`;
+      headings.push({ level: block.level, start, end: text.length });
+    } else {
+      text += `${block.text}\n\n`;
+    }
+  });
+
+  text = text.replace(/\n+$/, '');
+  return {
+    text,
+    highlights: [],
+    headings: headings.map(h => ({ ...h, end: Math.min(h.end, text.length) })),
+    citations: findCitations(text),
+  };
+};
+
+// --- Markdown ---
+
+const cleanMarkdownInline = (text: string): string =>
+  text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')            // images
+    .replace(/\[\^[^\]]+\]/g, '')                    // footnote references
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')         // links (but not [@key] citations)
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')              // bold
+    .replace(/(^|[^\w*])\*([^*\n]+)\*/g, '$1$2')     // italic
+    .replace(/(^|\W)_([^_\n]+)_(?=\W|$)/g, '$1$2')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/<[^>]+>/g, '');
+
+export const parseMarkdown = (source: string): DocumentBlock[] => {
+  const blocks: DocumentBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    const text = collapseWhitespace(cleanMarkdownInline(paragraph.join(' ')));
+    if (text) blocks.push({ type: 'paragraph', text });
+    paragraph = [];
+  };
+
+  const body = source.replace(/\r\n?/g, '\n').replace(/^---\n[\s\S]*?\n---\n/, ''); // YAML front matter
+
+  for (const rawLine of body.split('\n')) {
+    const line = rawLine.replace(/^\s*>\s?/, ''); // block quotes
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+
+    if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: Math.min(heading[1].length, 3), text: cleanMarkdownInline(heading[2]) });
+    } else if (/^(=+|-+)\s*$/.test(line) && paragraph.length === 1) {
+      // Setext heading: the previous line is underlined
+      blocks.push({ type: 'heading', level: line.trim().startsWith('=') ? 1 : 2, text: cleanMarkdownInline(paragraph[0].trim()) });
+      paragraph = [];
+    } else if (/^\s*(```|~~~)/.test(line) || /^\s*$/.test(line)) {
+      flush();
+    } else if (/^\s*([-*+]|\d+[.)])\s+/.test(line)) {
+      // Each list item becomes its own paragraph
+      flush();
+      paragraph.push(line.replace(/^\s*([-*+]|\d+[.)])\s+/, ''));
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+  return blocks;
+};
+
+// --- LaTeX ---
+
+const LATEX_SECTION_LEVELS: Record<string, number> = {
+  chapter: 1, section: 1, subsection: 2, subsubsection: 3, paragraph: 3,
+};
+
+const REMOVED_ENVIRONMENTS = ['figure', 'table', 'equation', 'align', 'gather', 'tikzpicture', 'lstlisting', 'verbatim', 'thebibliography'];
+
+// One level of nested braces is enough for section titles and formatting commands
+const BRACED = '\\{((?:[^{}]|\\{[^{}]*\\})*)\\}';
+
+const HEADING_MARK = '\u0002';
+const CITE_MARK = '\u0000';
+
+export const parseLatex = (source: string): DocumentBlock[] => {
+  let text = source.replace(/\r\n?/g, '\n').replace(/(^|[^\\])%.*$/gm, '$1');
+
+  const title = text.match(new RegExp(`\\\\title${BRACED}`));
+  const docStart = text.indexOf('\\begin{document}');
+  if (docStart !== -1) {
+    text = text.slice(docStart + '\\begin{document}'.length);
+    const docEnd = text.indexOf('\\end{document}');
+    if (docEnd !== -1) text = text.slice(0, docEnd);
+  }
+
+  for (const env of REMOVED_ENVIRONMENTS) {
+    text = text.replace(new RegExp(`\\\\begin\\{${env}\\*?\\}[\\s\\S]*?\\\\end\\{${env}\\*?\\}`, 'g'), '\n\n');
+  }
+
+  // Keep citation commands verbatim while everything else is stripped
+  const cites: string[] = [];
+  text = text.replace(LATEX_CITE, match => {
+    cites.push(match);
+    return `${CITE_MARK}${cites.length - 1}${CITE_MARK}`;
+  });
+
+  text = text
+    .replace(new RegExp(`\\\\(chapter|section|subsection|subsubsection|paragraph)\\*?(?:\\[[^\\]]*\\])?${BRACED}`, 'g'),
+      (_, cmd, heading) => `\n\n${HEADING_MARK}${LATEX_SECTION_LEVELS[cmd]}${heading}\n\n`)
+    .replace(/\\item\b(\[[^\]]*\])?/g, '\n\n')
+    .replace(/\\(begin|end)\{[^}]*\}/g, '\n\n')
+    .replace(/\\(label|vspace|hspace|bibliography|bibliographystyle|includegraphics)\*?(\[[^\]]*\])?\{[^}]*\}/g, '')
+    .replace(new RegExp(`\\\\href\\{[^}]*\\}${BRACED}`, 'g'), '$1')
+    .replace(new RegExp(`\\\\footnote${BRACED}`, 'g'), ' ($1)')
+    .replace(/\\\\(\[[^\]]*\])?/g, ' ')
+    .replace(/\\([&%$#_{}])/g, '$1')
+    .replace(/~/g, ' ')
+    .replace(/``/g, '“').replace(/''/g, '”')
+    .replace(/---/g, '—').replace(/--/g, '–')
+    .replace(/\\(ldots|dots)\b/g, '…');
+
+  // Formatting commands keep their argument; repeat for nesting
+  const command = new RegExp(`\\\\[a-zA-Z]+\\*?(?:\\[[^\\]]*\\])?${BRACED}`, 'g');
+  for (let i = 0; i < 5; i++) {
+    const next = text.replace(command, '$1');
+    if (next === text) break;
+    text = next;
+  }
+  text = text.replace(/\\[a-zA-Z]+\*?/g, '').replace(/[{}]/g, '');
+  text = text.replace(new RegExp(`${CITE_MARK}(\\d+)${CITE_MARK}`, 'g'), (_, i) => cites[parseInt(i)]);
+
+  const blocks: DocumentBlock[] = [];
+  if (title) blocks.push({ type: 'heading', level: 1, text: collapseWhitespace(title[1].replace(/\\[a-zA-Z]+|[{}]/g, '')) });
+
+  text.split(/\n\s*\n/).forEach(chunk => {
+    const clean = collapseWhitespace(chunk);
+    if (!clean) return;
+    if (clean.startsWith(HEADING_MARK)) {
+      blocks.push({ type: 'heading', level: parseInt(clean.charAt(1)), text: clean.slice(2).trim() });
+    } else {
+      blocks.push({ type: 'paragraph', text: clean });
+    }
+  });
+  return blocks;
+};
+
+// --- DOCX ---
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const wAttr = (el: Element | undefined, name: string): string | null =>
+  el ? el.getAttributeNS(W_NS, name) ?? el.getAttribute(`w:${name}`) : null;
+
+const firstChild = (el: Element, name: string): Element | undefined =>
+  Array.from(el.children).find(c => c.localName === name);
+
+export const parseDocx = async (buffer: ArrayBuffer): Promise<DocumentBlock[]> => {
+  const files = await readZipTextFiles(buffer, ['word/document.xml', 'word/styles.xml']);
+  if (!files['word/document.xml']) throw new Error("This .docx file has no document body.");
+
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(files['word/document.xml'], 'application/xml');
+
+  // Style IDs are localized ("Überschrift1"), but style names are not ("heading 1")
+  const headingStyles = new Map<string, number>();
+  if (files['word/styles.xml']) {
+    const styles = parser.parseFromString(files['word/styles.xml'], 'application/xml');
+    Array.from(styles.getElementsByTagNameNS(W_NS, 'style')).forEach(style => {
+      const id = wAttr(style, 'styleId');
+      const name = (wAttr(firstChild(style, 'name'), 'val') || '').toLowerCase();
+      const match = name.match(/^heading\s*(\d)/);
+      if (id && match) headingStyles.set(id, parseInt(match[1]));
+      else if (id && name === 'title') headingStyles.set(id, 1);
+    });
+  }
+
+  const blocks: DocumentBlock[] = [];
+  Array.from(doc.getElementsByTagNameNS(W_NS, 'p')).forEach(p => {
+    let text = '';
+    const walk = (node: Element) => {
+      for (const child of Array.from(node.children)) {
+        if (child.localName === 't') text += child.textContent || '';
+        else if (child.localName === 'tab') text += '\t';
+        else if (child.localName === 'br' || child.localName === 'cr') text += ' ';
+        // Skip deleted tracked changes and field instructions; nested paragraphs are visited on their own
+        else if (!['delText', 'instrText', 'p', 'pPr'].includes(child.localName)) walk(child);
+      }
+    };
+    walk(p);
+
+    const clean = collapseWhitespace(text);
+    if (!clean) return;
+
+    const pPr = firstChild(p, 'pPr');
+    const styleId = pPr ? wAttr(firstChild(pPr, 'pStyle'), 'val') : null;
+    const outline = pPr ? wAttr(firstChild(pPr, 'outlineLvl'), 'val') : null;
+    const level = (styleId && headingStyles.get(styleId))
+      || (styleId && /^heading(\d)$/i.test(styleId) ? parseInt(styleId.slice(-1)) : 0)
+      || (outline !== null ? parseInt(outline) + 1 : 0);
+
+    if (level > 0) blocks.push({ type: 'heading', level: Math.min(level, 3), text: clean });
+    else blocks.push({ type: 'paragraph', text: clean });
+  });
+  return blocks;
+};
+
+export const importManuscript = async (file: File): Promise<EditorSnapshot> => {
+  const ext = extensionOf(file.name);
+  let blocks: DocumentBlock[];
+
+  if (ext === '.docx') blocks = await parseDocx(await file.arrayBuffer());
+  else if (ext === '.tex') blocks = parseLatex(await file.text());
+  else if (ext === '.md' || ext === '.markdown') blocks = parseMarkdown(await file.text());
+  else if (ext === '.txt') blocks = paragraphsFrom((await file.text()).replace(/\r\n?/g, '\n'));
+  else throw new Error(`Unsupported file type "${ext}".`);
+
+  if (blocks.length === 0) throw new Error("The file contains no text.");
+  return toSnapshot(blocks);
+};
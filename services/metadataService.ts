@@ -0,0 +1,176 @@
+import { Reference, VerificationResult, VerificationStatus } from "../types";
+import { TITLE_MATCH_THRESHOLD, extractDoi, normalizeTitle, titleSimilarity } from "./referenceIdentity";
+
+// Any server implementing the Crossref REST API (`/works/{doi}` and `/works?query...`) works here
+export const DEFAULT_METADATA_URL = 'https://api.crossref.org';
+
+const SEARCH_ROWS = 5;
+
+// Subset of a Crossref "work" record that we use
+interface WorkRecord {
+  DOI: string;
+  URL?: string;
+  title?: string[];
+  'container-title'?: string[];
+  issued?: { 'date-parts'?: (number | null)[][] };
+  author?: { given?: string; family?: string; name?: string }[];
+}
+
+type UncheckedRecord = Record<string, unknown>;
+
+const asRecord = (value: unknown): UncheckedRecord | undefined =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as UncheckedRecord) : undefined;
+
+const strings = (value: unknown): string[] | undefined =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : undefined;
+
+const optionalString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+// Registries are external input: only the fields we read are kept, and only with the expected types
+const toWorkRecord = (value: unknown): WorkRecord | null => {
+  const work = asRecord(value);
+  if (!work || typeof work.DOI !== 'string') return null;
+  const dateParts = asRecord(work.issued)?.['date-parts'];
+  const firstPart = Array.isArray(dateParts) && Array.isArray(dateParts[0]) ? dateParts[0][0] : undefined;
+  return {
+    DOI: work.DOI,
+    URL: optionalString(work.URL),
+    title: strings(work.title),
+    'container-title': strings(work['container-title']),
+    issued: typeof firstPart === 'number' ? { 'date-parts': [[firstPart]] } : undefined,
+    author: Array.isArray(work.author)
+      ? work.author.map(asRecord).filter((a): a is UncheckedRecord => !!a)
+        .map(a => ({ given: optionalString(a.given), family: optionalString(a.family), name: optionalString(a.name) }))
+      : undefined,
+  };
+};
+
+// Crossref wraps every answer in `{ message: … }`
+const messageOf = (data: unknown): UncheckedRecord | undefined => asRecord(asRecord(data)?.message);
+
+const fetchJson = async (url: string, signal?: AbortSignal): Promise<unknown> => {
+  const response = await fetch(url, { headers: { Accept: 'application/json' }, signal });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Metadata lookup failed (${response.status})`);
+  }
+  return response.json();
+};
+
+const lookupByDoi = async (baseUrl: string, doi: string, signal?: AbortSignal): Promise<WorkRecord | null> => {
+  const data = await fetchJson(`${baseUrl}/works/${encodeURIComponent(doi)}`, signal);
+  return toWorkRecord(messageOf(data));
+};
+
+const lookupByTitle = async (baseUrl: string, ref: Reference, signal?: AbortSignal): Promise<WorkRecord | null> => {
+  const firstAuthor = ref.authors.find(a => a && a.toLowerCase() !== 'etc.') || '';
+  const params = new URLSearchParams({
+    'query.bibliographic': `${ref.title} ${firstAuthor}`.trim(),
+    rows: String(SEARCH_ROWS),
+  });
+  const data = await fetchJson(`${baseUrl}/works?${params.toString()}`, signal);
+  const found = messageOf(data)?.items;
+  const items = (Array.isArray(found) ? found : [])
+    .map(toWorkRecord)
+    .filter((item): item is WorkRecord => !!item);
+
+  let best: WorkRecord | null = null;
+  let bestScore = 0;
+  for (const item of items) {
+    const score = titleSimilarity(ref.title, item.title?.[0] || '');
+    if (score > bestScore) {
+      best = item;
+      bestScore = score;
+    }
+  }
+  return bestScore >= TITLE_MATCH_THRESHOLD ? best : null;
+};
+
+const recordYear = (record: WorkRecord): string | undefined => {
+  const year = record.issued?.['date-parts']?.[0]?.[0];
+  return year ? String(year) : undefined;
+};
+
+const recordAuthors = (record: WorkRecord): string[] | undefined => {
+  const authors = (record.author || [])
+    .map(a => a.name || [a.given, a.family].filter(Boolean).join(' '))
+    .filter(Boolean);
+  return authors.length > 0 ? authors : undefined;
+};
+
+// Overwrite the model's metadata with the registry's, noting which fields changed
+const applyRecord = (ref: Reference, record: WorkRecord): Reference => {
+  const canonical = {
+    title: record.title?.[0]?.replace(/<[^>]+>/g, '').trim() || ref.title,
+    year: recordYear(record) || ref.year,
+    publication: record['container-title']?.[0] || ref.publication,
+    doi: record.DOI.toLowerCase(),
+  };
+
+  const correctedFields: string[] = [];
+  if (normalizeTitle(canonical.title) !== normalizeTitle(ref.title)) correctedFields.push('title');
+  if (canonical.year !== ref.year.trim()) correctedFields.push('year');
+  if (normalizeTitle(canonical.publication) !== normalizeTitle(ref.publication)) correctedFields.push('publication');
+  if (canonical.doi !== extractDoi(ref.doi || ref.url)) correctedFields.push('doi');
+
+  const verification: VerificationResult = correctedFields.length > 0
+    ? { status: VerificationStatus.CORRECTED, correctedFields }
+    : { status: VerificationStatus.VERIFIED };
+
+  return {
+    ...ref,
+    ...canonical,
+    authors: recordAuthors(record) || ref.authors,
+    // Replace links that don't point at the paper with its DOI link
+    url: ref.url && ref.url.toLowerCase().includes(canonical.doi) ? ref.url : `https://doi.org/${canonical.doi}`,
+    verification,
+  };
+};
+
+const resolveReference = async (ref: Reference, baseUrl: string, signal?: AbortSignal): Promise<Reference> => {
+  try {
+    const doi = extractDoi(ref.doi || ref.url);
+    let record = doi ? await lookupByDoi(baseUrl, doi, signal) : null;
+
+    // A DOI pointing at a different paper is as bad as no DOI
+    if (record && titleSimilarity(ref.title, record.title?.[0] || '') < TITLE_MATCH_THRESHOLD / 2) {
+      record = null;
+    }
+    if (!record) {
+      record = await lookupByTitle(baseUrl, ref, signal);
+    }
+
+    if (!record) {
+      return {
+        ...ref,
+        verification: {
+          status: VerificationStatus.UNRESOLVED,
+          note: 'No matching record was found in the metadata registry.',
+        },
+      };
+    }
+    return applyRecord(ref, record);
+
+  } catch (error) {
+    // A cancelled search stops here instead of returning half-verified references
+    if (signal?.aborted) throw error;
+    console.warn("Metadata resolution failed:", error);
+    return {
+      ...ref,
+      verification: {
+        status: VerificationStatus.UNRESOLVED,
+        note: error instanceof Error ? error.message : 'Metadata lookup failed.',
+      },
+    };
+  }
+};
+
+// Look up every reference by DOI (falling back to title) and attach a verification status
+export const resolveReferences = async (
+  references: Reference[],
+  baseUrl: string = DEFAULT_METADATA_URL,
+  signal?: AbortSignal
+): Promise<Reference[]> => {
+  const cleanBase = (baseUrl.trim() || DEFAULT_METADATA_URL).replace(/\/+$/, '');
+  return Promise.all(references.map(ref => resolveReference(ref, cleanBase, signal)));
+};
@@ -0,0 +1,209 @@
+import { ModelOption, ProviderId, ProviderRequest, ProviderResult, ProviderSettings, Reference, ReferenceProvider } from "../types";
+import { resolveReferences } from "./metadataService";
+import { REFERENCE_LIST_SCHEMA, parseReferenceArray, validateReferences } from "./referenceValidation";
+import { searchError } from "./requestControl";
+import { buildSearchPrompt } from "./searchPrompt";
+import { SUPPORT_LIST_SCHEMA, applyAssessments, buildSupportPrompt } from "./claimSupport";
+
+// Providers for OpenAI-compatible chat completions APIs: OpenAI itself, hosted services that copy its API,
+// and self-hosted servers (Ollama, llama.cpp). They have no web search, so the model cites from memory
+// and the DOI registry check in `verify` is what separates real papers from invented ones.
+
+const FETCH_BATCH_SIZE = 7;
+
+const SYSTEM_PROMPT = 'Answer with the requested JSON only, without commentary.';
+
+interface OpenAIProviderConfig {
+  id: ProviderId;
+  name: string;
+  defaultBaseUrl: string;
+  keyPlaceholder: string;
+  models: ModelOption[];
+  defaultModel: string;
+}
+
+// How strictly the output is constrained, most to least. An endpoint that rejects one format gets the next;
+// the prompt asks for the same JSON either way, and the reply is validated after parsing.
+type ResponseFormat = 'json_schema' | 'json_object' | 'text';
+
+const FORMAT_FALLBACK: Record<ResponseFormat, ResponseFormat | undefined> = {
+  json_schema: 'json_object',
+  json_object: 'text',
+  text: undefined,
+};
+
+// Statuses servers answer an unsupported response_format with
+const REJECTED_FORMAT_STATUSES = [400, 422];
+
+interface OutputSchema {
+  name: string;
+  schema: object;
+}
+
+// OpenAI only accepts an object at the root of a response schema, so the list is wrapped in one;
+// parseReferenceArray reads the first array in the reply either way
+const responseFormat = (format: ResponseFormat, { name, schema }: OutputSchema): object | undefined => {
+  if (format === 'json_object') return { type: 'json_object' };
+  if (format === 'text') return undefined;
+  return {
+    type: 'json_schema',
+    json_schema: {
+      name,
+      schema: { type: 'object', properties: { items: schema }, required: ['items'] },
+    },
+  };
+};
+
+const REFERENCE_OUTPUT: OutputSchema = { name: 'references', schema: REFERENCE_LIST_SCHEMA };
+const SUPPORT_OUTPUT: OutputSchema = { name: 'assessments', schema: SUPPORT_LIST_SCHEMA };
+
+const endpoint = (baseUrl: string, path: string): string => `${baseUrl.trim().replace(/\/+$/, '')}${path}`;
+
+const headers = (apiKey?: string): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  // Local servers usually take no key
+  ...(apiKey?.trim() && { Authorization: `Bearer ${apiKey.trim()}` }),
+});
+
+// The server's own error message where it sends one. The status lets classifyError tell quota, key and server problems apart.
+const httpError = async (response: Response): Promise<Error> => {
+  let detail = response.statusText;
+  try {
+    const body = await response.json();
+    detail = body?.error?.message || (typeof body?.error === 'string' ? body.error : '') || detail;
+  } catch {
+    // Not JSON; the status text will do
+  }
+  return Object.assign(new Error(`${response.status} ${detail}`.trim()), { status: response.status });
+};
+
+// Reasoning models served locally (e.g. DeepSeek-R1, Qwen3) put their thinking before the answer
+const stripReasoning = (text: string): string => text.replace(/<think>[\s\S]*?<\/think>/g, '');
+
+export const createOpenAIProvider = (config: OpenAIProviderConfig): ReferenceProvider => {
+  const baseUrlOf = (request: ProviderRequest): string => request.baseUrl || config.defaultBaseUrl;
+  // The format each endpoint last accepted, so later requests skip the ones it rejected
+  const acceptedFormats = new Map<string, ResponseFormat>();
+
+  // One chat completion; returns the answer text
+  const complete = async (request: ProviderRequest, prompt: string, maxTokens: number, output: OutputSchema): Promise<string> => {
+    const model = request.prefs.model?.trim();
+    if (!model) throw searchError('unknown', `No model selected for ${config.name}.`);
+
+    const baseUrl = baseUrlOf(request);
+    let format = acceptedFormats.get(baseUrl) || 'json_schema';
+    let response: Response;
+    for (;;) {
+      const constraint = responseFormat(format, output);
+      response = await fetch(endpoint(baseUrl, '/chat/completions'), {
+        method: 'POST',
+        headers: headers(request.apiKey),
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: 'system', content: SYSTEM_PROMPT },
+            { role: 'user', content: prompt },
+          ],
+          max_tokens: maxTokens,
+          temperature: 0.2,
+          ...(constraint && { response_format: constraint }),
+        }),
+        signal: request.signal,
+      });
+      const next = FORMAT_FALLBACK[format];
+      if (response.ok || !next || !REJECTED_FORMAT_STATUSES.includes(response.status)) break;
+      console.warn(`${config.name} rejected response_format ${format}; trying ${next}.`);
+      format = next;
+    }
+    if (!response.ok) throw await httpError(response);
+    acceptedFormats.set(baseUrl, format);
+
+    const data = await response.json();
+    const choice = data?.choices?.[0];
+    const text = typeof choice?.message?.content === 'string' ? stripReasoning(choice.message.content) : '';
+    if (!text.trim()) {
+      throw searchError('parse', `No response received from ${model}${choice?.finish_reason ? ` (finish reason: ${choice.finish_reason})` : ''}`);
+    }
+    return text;
+  };
+
+  const searchReferences = async (request: ProviderRequest): Promise<ProviderResult> => {
+    const model = request.prefs.model;
+    const text = await complete(request, buildSearchPrompt(request, { batchSize: FETCH_BATCH_SIZE }), 8192, REFERENCE_OUTPUT);
+
+    let parsed;
+    try {
+      parsed = parseReferenceArray(text);
+    } catch (parseError) {
+      console.error(`Failed to parse ${config.name} response:`, text);
+      const detail = parseError instanceof Error ? parseError.message : String(parseError);
+      throw searchError('parse', `Could not read references from the ${model} response. ${detail}`);
+    }
+    if (parsed.truncated) console.warn("Response was truncated. Kept the complete references.");
+
+    const result = validateReferences(parsed.items);
+    if (result.references.length === 0 && result.rejected.length > 0) {
+      const first = result.rejected[0];
+      throw searchError('parse', `All ${result.rejected.length} references in the ${model} response were invalid (e.g. item ${first.index + 1}: ${first.problems.join('; ')}).`);
+    }
+    return result;
+  };
+
+  const assessSupport = async (references: Reference[], request: ProviderRequest): Promise<Reference[]> => {
+    if (references.length === 0) return references;
+    const text = await complete(request, buildSupportPrompt(request.context, references), 4096, SUPPORT_OUTPUT);
+    return applyAssessments(references, parseReferenceArray(text).items);
+  };
+
+  // The models the server offers (for Ollama, the ones pulled onto it)
+  const listModels = async (settings: ProviderSettings, signal?: AbortSignal): Promise<string[]> => {
+    const response = await fetch(endpoint(settings.baseUrl || config.defaultBaseUrl, '/models'), {
+      headers: headers(settings.apiKey),
+      signal,
+    });
+    if (!response.ok) throw await httpError(response);
+    const data = await response.json();
+    return (Array.isArray(data?.data) ? data.data : [])
+      .map((model: { id?: unknown }) => model?.id)
+      .filter((id: unknown): id is string => typeof id === 'string')
+      .sort();
+  };
+
+  return {
+    id: config.id,
+    name: config.name,
+    connection: { keyPlaceholder: config.keyPlaceholder, defaultBaseUrl: config.defaultBaseUrl },
+    models: config.models,
+    defaultModel: config.defaultModel,
+    listModels,
+    search: searchReferences,
+    // Without web search the registry check matters even more than for grounded providers
+    verify: (references, request) => resolveReferences(references, request.metadataUrl, request.signal),
+    // excludeTitles in the prefs already steers the prompt away from known papers
+    fetchMore: searchReferences,
+    assessSupport,
+  };
+};
+
+export const openaiProvider = createOpenAIProvider({
+  id: ProviderId.OPENAI,
+  name: 'OpenAI-compatible API (no web search)',
+  defaultBaseUrl: 'https://api.openai.com/v1',
+  keyPlaceholder: 'Enter the API key for this endpoint',
+  models: [
+    { id: 'gpt-4.1', label: 'GPT-4.1' },
+    { id: 'gpt-4.1-mini', label: 'GPT-4.1 mini' },
+    { id: 'gpt-4o-mini', label: 'GPT-4o mini' },
+  ],
+  defaultModel: 'gpt-4.1-mini',
+});
+
+// Ollama serves its OpenAI-compatible API under /v1; a llama.cpp server answers at http://localhost:8080/v1
+export const localProvider = createOpenAIProvider({
+  id: ProviderId.LOCAL,
+  name: 'Local model: Ollama / llama.cpp (no web search)',
+  defaultBaseUrl: 'http://localhost:11434/v1',
+  keyPlaceholder: 'Usually not needed for a local server',
+  models: [],
+  defaultModel: 'llama3.1',
+});
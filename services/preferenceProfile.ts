@@ -0,0 +1,226 @@
+import { DisapprovalHistoryItem, DisapprovalReason, LikedPaper, PreferenceProfile, ProfileSignals, Reference, SelectionContext } from "../types";
+import { tokenize } from "./libraryMatch";
+import { sameTitle } from "./referenceIdentity";
+
+// The preference profile learned from disapprovals, kept in localStorage across manuscripts.
+// Every reason contributes: venues are blocked and "not relevant" papers avoided straight away, while
+// "not new", "not highly cited" and topics are learned from several signals, since one click says
+// more about that highlight than about the user. Thresholds and topics only steer the prompt.
+// Approved and starred papers are the positive side: they are shown to the model as examples.
+
+const PROFILE_KEY = 'sciref.profile';
+
+const MAX_AVOIDED_TITLES = 30;
+// A threshold is learned from this many signals on, and then follows their median
+const MIN_THRESHOLD_SIGNALS = 3;
+const MAX_THRESHOLD_SIGNALS = 10;
+// A word becomes an avoided topic once "not relevant" papers at this many different highlights share it
+const TOPIC_MIN_HIGHLIGHTS = 2;
+const MAX_TOPICS = 15;
+const MAX_TRACKED_TERMS = 200;
+const MAX_LIKED_PAPERS = 10; // Approvals kept besides favorites
+const MAX_EXAMPLES = 6; // Liked papers described in a prompt
+
+const EMPTY_SIGNALS: ProfileSignals = { notNewYears: [], lowImpactCitations: [], topicHighlights: {} };
+
+export const EMPTY_PROFILE: PreferenceProfile = {
+  blockedVenues: [],
+  avoidTopics: [],
+  avoidTitles: [],
+  likedPapers: [],
+  signals: EMPTY_SIGNALS,
+  feedbackCount: 0,
+};
+
+export const loadProfile = (): PreferenceProfile => {
+  try {
+    const raw = localStorage.getItem(PROFILE_KEY);
+    if (!raw) return EMPTY_PROFILE;
+    const stored = JSON.parse(raw) as Partial<PreferenceProfile>;
+    // Profiles saved before signals were kept start collecting them now
+    return { ...EMPTY_PROFILE, ...stored, signals: { ...EMPTY_SIGNALS, ...stored.signals } };
+  } catch (e) {
+    console.warn("Could not read the preference profile:", e);
+    return EMPTY_PROFILE;
+  }
+};
+
+export const saveProfile = (profile: PreferenceProfile) => {
+  try {
+    localStorage.setItem(PROFILE_KEY, JSON.stringify(profile));
+  } catch (e) {
+    console.error("Could not save the preference profile:", e);
+  }
+};
+
+export const isEmptyProfile = (profile: PreferenceProfile): boolean =>
+  profile.blockedVenues.length === 0 && profile.avoidTopics.length === 0 && profile.avoidTitles.length === 0
+  && profile.likedPapers.length === 0 && profile.minYear === undefined && profile.minCitations === undefined;
+
+const sameVenue = (a: string, b: string): boolean => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const parseYear = (year: string): number | undefined => {
+  const match = year.match(/\d{4}/);
+  return match ? parseInt(match[0]) : undefined;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+};
+
+// Adds a signal; the threshold then drifts with the median of the recent ones instead of jumping to the last
+const addSignal = (values: number[], value: number): { values: number[]; threshold?: number } => {
+  const next = [...values, value].slice(-MAX_THRESHOLD_SIGNALS);
+  return { values: next, threshold: next.length >= MIN_THRESHOLD_SIGNALS ? median(next) : undefined };
+};
+
+// Records the highlight at which each term of a "not relevant" title came up. Words of the claim itself are
+// left out: rejected papers at one highlight always share them, and they are the manuscript's own subject.
+// Returns the terms that this signal brought to TOPIC_MIN_HIGHLIGHTS highlights.
+const addTopicSignals = (
+  topicHighlights: Record<string, string[]>,
+  title: string,
+  highlightId: string,
+  claim?: SelectionContext
+): { topicHighlights: Record<string, string[]>; learned: string[] } => {
+  const claimTerms = new Set(claim ? tokenize(`${claim.highlightedText} ${claim.precedingContext}`) : []);
+  const next = { ...topicHighlights };
+  const learned: string[] = [];
+  new Set(tokenize(title)).forEach(term => {
+    if (claimTerms.has(term)) return;
+    const seen = next[term] || [];
+    if (seen.includes(highlightId)) return;
+    // Re-inserted so the most recently seen terms are the last to be pruned
+    delete next[term];
+    next[term] = [...seen, highlightId];
+    if (next[term].length === TOPIC_MIN_HIGHLIGHTS) learned.push(term);
+  });
+  const terms = Object.keys(next);
+  terms.slice(0, Math.max(0, terms.length - MAX_TRACKED_TERMS)).forEach(term => delete next[term]);
+  return { topicHighlights: next, learned };
+};
+
+// The profile after one more disapproval. `claim` is the highlight the paper was rejected for.
+export const learnFromFeedback = (
+  profile: PreferenceProfile,
+  item: DisapprovalHistoryItem,
+  claim?: SelectionContext
+): PreferenceProfile => {
+  const { reference, reason } = item;
+  const next: PreferenceProfile = { ...profile, feedbackCount: profile.feedbackCount + 1, updatedAt: item.timestamp };
+
+  switch (reason) {
+    case DisapprovalReason.UNWANTED_SOURCE:
+      if (reference.publication.trim() && !profile.blockedVenues.some(v => sameVenue(v, reference.publication))) {
+        next.blockedVenues = [...profile.blockedVenues, reference.publication.trim()];
+      }
+      break;
+    case DisapprovalReason.NOT_NEW: {
+      const year = parseYear(reference.year);
+      if (year === undefined) break;
+      const { values, threshold } = addSignal(profile.signals.notNewYears, year);
+      next.signals = { ...profile.signals, notNewYears: values };
+      // Newer than most rejected papers, but never beyond last year
+      if (threshold !== undefined) next.minYear = Math.min(threshold + 1, new Date().getFullYear() - 1);
+      break;
+    }
+    case DisapprovalReason.LOW_IMPACT: {
+      if (reference.citationCount === undefined) break;
+      const { values, threshold } = addSignal(profile.signals.lowImpactCitations, reference.citationCount);
+      next.signals = { ...profile.signals, lowImpactCitations: values };
+      if (threshold !== undefined) next.minCitations = threshold;
+      break;
+    }
+    case DisapprovalReason.NOT_RELEVANT: {
+      if (profile.avoidTitles.some(title => sameTitle(title, reference.title))) break;
+      next.avoidTitles = [...profile.avoidTitles, reference.title].slice(-MAX_AVOIDED_TITLES);
+      if (!item.searchId) break;
+      const { topicHighlights, learned } = addTopicSignals(profile.signals.topicHighlights, reference.title, item.searchId, claim);
+      next.signals = { ...profile.signals, topicHighlights };
+      // Topics the user removed come back only if rejections at further highlights keep pointing at them
+      const added = learned.filter(term => !profile.avoidTopics.includes(term));
+      next.avoidTopics = [...profile.avoidTopics, ...added].slice(0, MAX_TOPICS);
+      break;
+    }
+  }
+  return next;
+};
+
+export const findLikedPaper = (profile: PreferenceProfile, ref: Reference): LikedPaper | undefined =>
+  profile.likedPapers.find(paper => sameTitle(paper.title, ref.title));
+
+// Records an approval (or a star, with `favorite`) as a positive example.
+// Liking a paper also takes it off the avoid list, if an earlier rejection put it there.
+export const likePaper = (profile: PreferenceProfile, ref: Reference, favorite = false): PreferenceProfile => {
+  const existing = findLikedPaper(profile, ref);
+  const paper: LikedPaper = {
+    title: ref.title,
+    publication: ref.publication,
+    year: ref.year,
+    summary: ref.summary || undefined,
+    favorite: favorite || existing?.favorite,
+    likedAt: Date.now(),
+  };
+  const others = profile.likedPapers.filter(p => p !== existing);
+  // Favorites never roll off; only the oldest plain approvals do
+  const plain = others.filter(p => !p.favorite).length + (paper.favorite ? 0 : 1);
+  let overflow = Math.max(0, plain - MAX_LIKED_PAPERS);
+  const kept = others.filter(p => p.favorite || overflow-- <= 0);
+  return {
+    ...profile,
+    likedPapers: [...kept, paper],
+    avoidTitles: profile.avoidTitles.filter(title => !sameTitle(title, ref.title)),
+    updatedAt: paper.likedAt,
+  };
+};
+
+// Withdraws an approval, or only the star when `favoriteOnly` is set
+export const unlikePaper = (profile: PreferenceProfile, ref: Reference, favoriteOnly = false): PreferenceProfile => {
+  const existing = findLikedPaper(profile, ref);
+  if (!existing) return profile;
+  const likedPapers = favoriteOnly
+    ? profile.likedPapers.map(p => (p === existing ? { ...p, favorite: false } : p))
+    : profile.likedPapers.filter(p => p !== existing);
+  return { ...profile, likedPapers, updatedAt: Date.now() };
+};
+
+// Drops results the user ruled out explicitly: blocked venues and papers marked "not relevant".
+// The learned year and citation thresholds are only prompt hints, as they are estimates.
+export const applyProfile = (references: Reference[], profile?: PreferenceProfile): Reference[] => {
+  if (!profile) return references;
+  return references.filter(ref =>
+    !profile.blockedVenues.some(venue => sameVenue(venue, ref.publication))
+    && !profile.avoidTitles.some(title => sameTitle(title, ref.title)));
+};
+
+// Prompt lines describing the profile, empty if nothing was learned
+export const describeProfile = (profile?: PreferenceProfile): string[] => {
+  if (!profile) return [];
+  const lines: string[] = [];
+  if (profile.blockedVenues.length > 0) {
+    lines.push(`DO NOT include papers from these sources/journals, which the user rejected: ${profile.blockedVenues.join(', ')}.`);
+  }
+  if (profile.minYear !== undefined) {
+    lines.push(`The user prefers recent work: favour papers published in ${profile.minYear} or later.`);
+  }
+  if (profile.minCitations !== undefined) {
+    lines.push(`The user prefers well-established work: favour papers cited at least ${profile.minCitations} times.`);
+  }
+  if (profile.avoidTopics.length > 0) {
+    lines.push(`Avoid papers mainly about these topics, which the user found irrelevant: ${profile.avoidTopics.join(', ')}.`);
+  }
+  if (profile.avoidTitles.length > 0) {
+    lines.push(`DO NOT include these papers, which the user marked as not relevant: ${JSON.stringify(profile.avoidTitles)}.`);
+  }
+  // Favorites first, then the most recent approvals
+  const examples = [...profile.likedPapers]
+    .sort((a, b) => Number(!!b.favorite) - Number(!!a.favorite) || b.likedAt - a.likedAt)
+    .slice(0, MAX_EXAMPLES);
+  if (examples.length > 0) {
+    const described = examples.map(p => `"${p.title}" (${p.publication}, ${p.year})`).join('; ');
+    lines.push(`The user found these papers useful; prefer papers of a similar kind, venue and depth (but do not repeat them unless they fit this text): ${described}.`);
+  }
+  return lines;
+};
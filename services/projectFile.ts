@@ -0,0 +1,193 @@
+import { DisapprovalHistoryItem, DisapprovalReason, EvidenceMode, LibraryEntry, Reference, SearchPreferences, SearchResultData, SortPriority } from "../types";
+import { CitationAnchor, EditorSnapshot, HeadingAnchor, HighlightAnchor } from "./editorDocument";
+
+// `.sciref.json` project files: a manuscript with all its searches, shareable between co-authors.
+// Bump PROJECT_SCHEMA_VERSION whenever the layout changes and add a migration from the previous version.
+
+export const PROJECT_FORMAT = 'sciref-project';
+export const PROJECT_SCHEMA_VERSION = 3;
+export const PROJECT_FILE_EXTENSION = '.sciref.json';
+
+export interface ProjectContent {
+  title: string;
+  editor: EditorSnapshot;
+  searchHistory: Record<string, SearchResultData>;
+  disapprovalHistory: DisapprovalHistoryItem[];
+  prefs?: SearchPreferences;
+  library?: LibraryEntry[]; // Library entries pinned to the searches, so co-authors get them too
+}
+
+interface ProjectFileV1 {
+  format: typeof PROJECT_FORMAT;
+  schemaVersion: 1;
+  savedAt: string;
+  title: string;
+  manuscript: EditorSnapshot;
+  searches: SearchResultData[];
+  disapprovalHistory: DisapprovalHistoryItem[];
+  prefs?: SearchPreferences;
+}
+
+// Version 2 adds the library entries that searches cite via `pinned`
+interface ProjectFileV2 extends Omit<ProjectFileV1, 'schemaVersion'> {
+  schemaVersion: 2;
+  library: LibraryEntry[];
+}
+
+// Version 3 keeps the headings and existing citations of imported manuscripts
+interface ProjectFileV3 extends Omit<ProjectFileV2, 'schemaVersion' | 'manuscript'> {
+  schemaVersion: 3;
+  manuscript: EditorSnapshot & { headings: HeadingAnchor[]; citations: CitationAnchor[] };
+}
+
+type ProjectFile = ProjectFileV3;
+
+// A parsed JSON object whose fields are still unchecked
+type UncheckedRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UncheckedRecord =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isOneOf = <T extends string>(values: Record<string, T>, value: unknown): value is T =>
+  (Object.values(values) as unknown[]).includes(value);
+
+// MIGRATIONS[n] upgrades a version n file to version n + 1. Migrations only add fields;
+// what the file holds is checked after the last one.
+const MIGRATIONS: Record<number, (file: UncheckedRecord) => UncheckedRecord> = {
+  1: file => ({ ...file, library: [] }),
+  2: file => ({ ...file, manuscript: { ...(isRecord(file.manuscript) ? file.manuscript : {}), headings: [], citations: [] } }),
+};
+
+const migrate = (file: UncheckedRecord & { schemaVersion: number }): UncheckedRecord => {
+  let current = file;
+  while (current.schemaVersion < PROJECT_SCHEMA_VERSION) {
+    const step = MIGRATIONS[current.schemaVersion];
+    if (!step) {
+      throw new Error(`Project files with schema version ${current.schemaVersion} are no longer supported.`);
+    }
+    current = { ...step(current), schemaVersion: current.schemaVersion + 1 };
+  }
+  return current;
+};
+
+export const serializeProject = (content: ProjectContent): string => {
+  const file: ProjectFile = {
+    format: PROJECT_FORMAT,
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    title: content.title,
+    manuscript: { ...content.editor, headings: content.editor.headings || [], citations: content.editor.citations || [] },
+    searches: Object.values(content.searchHistory),
+    disapprovalHistory: content.disapprovalHistory,
+    prefs: content.prefs,
+    library: content.library || [],
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// The fields the cache key, the profile and the prompts read without checking
+const isReference = (value: unknown): value is Reference =>
+  isRecord(value) && typeof value.title === 'string' && isStringArray(value.authors)
+  && typeof value.year === 'string' && typeof value.publication === 'string';
+
+const isLibraryEntry = (value: unknown): value is LibraryEntry =>
+  isRecord(value) && typeof value.id === 'string' && isStringArray(value.tags) && isReference(value.reference);
+
+// An unknown provider falls back to the default one, so only its type is checked
+const isPreferences = (value: unknown): value is SearchPreferences =>
+  isRecord(value) && typeof value.numReferences === 'number' && isOneOf(SortPriority, value.priority)
+  && (value.evidenceMode === undefined || isOneOf(EvidenceMode, value.evidenceMode))
+  && isStringArray(value.publisherFilter) && isStringArray(value.sourceTypes) && typeof value.yearStart === 'string'
+  && (value.excludeTitles === undefined || isStringArray(value.excludeTitles))
+  && typeof value.model === 'string' && typeof value.provider === 'string'
+  && (value.supportedOnly === undefined || typeof value.supportedOnly === 'boolean');
+
+const isSearch = (value: unknown): value is SearchResultData =>
+  isRecord(value) && typeof value.id === 'string' && Array.isArray(value.visible) && Array.isArray(value.pool)
+  && isRecord(value.context) && typeof value.context.highlightedText === 'string' && isPreferences(value.queryPrefs);
+
+const isDisapproval = (value: unknown): value is DisapprovalHistoryItem =>
+  isRecord(value) && isReference(value.reference) && isOneOf(DisapprovalReason, value.reason)
+  && typeof value.timestamp === 'number'
+  && (value.note === undefined || typeof value.note === 'string')
+  && (value.searchId === undefined || typeof value.searchId === 'string');
+
+// Anchors inside the text, in order and not overlapping; anything else would break the editor restore
+const validAnchors = <T extends { start: number; end: number }>(
+  values: unknown,
+  textLength: number,
+  isValid: (value: Record<string, unknown>) => boolean
+): T[] => {
+  const anchors = (Array.isArray(values) ? values : [])
+    .filter((value): value is Record<string, unknown> => !!value && typeof value === 'object')
+    .filter(value => Number.isInteger(value.start) && Number.isInteger(value.end)
+      && (value.start as number) >= 0 && (value.start as number) < (value.end as number) && (value.end as number) <= textLength
+      && isValid(value)) as unknown as T[];
+  let lastEnd = 0;
+  return [...anchors]
+    .sort((a, b) => a.start - b.start)
+    .filter(anchor => {
+      if (anchor.start < lastEnd) return false;
+      lastEnd = anchor.end;
+      return true;
+    });
+};
+
+const isHeading = (value: Record<string, unknown>): boolean =>
+  Number.isInteger(value.level) && (value.level as number) >= 1 && (value.level as number) <= 3;
+
+const isCitation = (value: Record<string, unknown>): boolean =>
+  Array.isArray(value.keys) && value.keys.length > 0 && value.keys.every(key => typeof key === 'string');
+
+export const parseProject = (text: string): ProjectContent => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+
+  if (!isRecord(raw) || raw.format !== PROJECT_FORMAT || typeof raw.schemaVersion !== 'number') {
+    throw new Error("This file is not a SciRef project.");
+  }
+  const { schemaVersion } = raw;
+  if (schemaVersion > PROJECT_SCHEMA_VERSION) {
+    throw new Error(`This project was saved by a newer version of SciRef (schema ${schemaVersion}). Please update the app.`);
+  }
+
+  const file = migrate({ ...raw, schemaVersion });
+  const manuscript = file.manuscript;
+  if (!isRecord(manuscript) || typeof manuscript.text !== 'string' || !Array.isArray(manuscript.highlights)) {
+    throw new Error("The project file has no manuscript.");
+  }
+
+  const searchHistory: Record<string, SearchResultData> = {};
+  (Array.isArray(file.searches) ? file.searches : []).forEach(search => {
+    if (isSearch(search)) searchHistory[search.id] = search;
+    else console.warn("Skipping malformed search in project file:", search);
+  });
+
+  // Shared files are untrusted: only well-formed anchors reach the editor
+  const { text: manuscriptText } = manuscript;
+  // Highlights without a search would be dead links in the editor
+  const highlights = validAnchors<HighlightAnchor>(manuscript.highlights, manuscriptText.length, h => typeof h.searchId === 'string')
+    .filter(h => searchHistory[h.searchId]);
+
+  return {
+    title: typeof file.title === 'string' ? file.title : '',
+    editor: {
+      text: manuscriptText,
+      highlights,
+      headings: validAnchors<HeadingAnchor>(manuscript.headings, manuscriptText.length, isHeading),
+      citations: validAnchors<CitationAnchor>(manuscript.citations, manuscriptText.length, isCitation),
+    },
+    searchHistory,
+    disapprovalHistory: (Array.isArray(file.disapprovalHistory) ? file.disapprovalHistory : []).filter(isDisapproval),
+    // Invalid settings are dropped; the app keeps its current ones
+    prefs: isPreferences(file.prefs) ? file.prefs : undefined,
+    library: (Array.isArray(file.library) ? file.library : []).filter(isLibraryEntry),
+  };
+};
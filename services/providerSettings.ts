@@ -0,0 +1,32 @@
+import { ProviderSettings } from "../types";
+
+// The endpoint URL of each provider, kept in localStorage so a restored session still reaches the
+// same server. API keys are never written: they stay in memory for the open page only.
+
+const ENDPOINTS_KEY = 'sciref.endpoints';
+
+export const loadEndpoints = (): Record<string, string> => {
+  try {
+    const raw = localStorage.getItem(ENDPOINTS_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : {};
+    if (!parsed || typeof parsed !== 'object') return {};
+    return Object.fromEntries(
+      Object.entries(parsed as Record<string, unknown>).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    );
+  } catch (e) {
+    console.warn("Could not read the saved endpoint URLs:", e);
+    return {};
+  }
+};
+
+// Saves only the endpoints; providers with a fixed endpoint have none to save
+export const saveEndpoints = (settings: Record<string, ProviderSettings>) => {
+  const endpoints = Object.fromEntries(
+    Object.entries(settings).filter(([, s]) => s.baseUrl.trim()).map(([id, s]) => [id, s.baseUrl.trim()])
+  );
+  try {
+    localStorage.setItem(ENDPOINTS_KEY, JSON.stringify(endpoints));
+  } catch (e) {
+    console.error("Could not save the endpoint URLs:", e);
+  }
+};
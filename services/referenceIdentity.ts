@@ -0,0 +1,275 @@
+import { Reference, VerificationStatus } from "../types";
+import { realAuthors } from "./authorNames";
+import { mergeGroundingSources } from "./grounding";
+
+// Deciding whether two references are the same paper. Used by verification, the result pool,
+// refills, the library and the export, so a paper is recognised the same way everywhere.
+// Identifiers (DOI, arXiv, PubMed, URL) decide first; otherwise titles are compared fuzzily,
+// with year and first author as tie-breakers. A preprint and its published version count as one.
+
+// Minimum title similarity (0-1) for two titles to name the same paper
+export const TITLE_MATCH_THRESHOLD = 0.85;
+// Above this the titles are treated as identical, whatever the (often unreliable) author lists say
+const TITLE_CERTAIN_THRESHOLD = 0.95;
+// Titles this short ("Deep learning") only match exactly
+const MIN_FUZZY_TITLE_WORDS = 4;
+
+const DOI_PATTERN = /10\.\d{4,9}\/[^\s"<>]+/i;
+const ARXIV_NEW = /(?:arxiv\.org\/(?:abs|pdf)\/|arxiv[:\s]\s*|10\.48550\/arxiv\.)(\d{4}\.\d{4,5})(?:v\d+)?/i;
+const ARXIV_OLD = /(?:arxiv\.org\/(?:abs|pdf)\/|arxiv[:\s]\s*)([a-z-]+(?:\.[a-z]{2})?\/\d{7})(?:v\d+)?/i;
+const PMID_PATTERN = /(?:pubmed\.ncbi\.nlm\.nih\.gov\/|ncbi\.nlm\.nih\.gov\/pubmed\/|pmid[:\s]\s*)(\d{1,9})/i;
+
+// DOI prefixes of preprint servers: arXiv, bioRxiv/medRxiv, ChemRxiv, Research Square, Preprints.org, SSRN
+const PREPRINT_DOI_PREFIXES = ['10.48550/', '10.1101/', '10.26434/', '10.21203/', '10.20944/', '10.2139/'];
+const PREPRINT_VENUE = /\b(?:arxiv|biorxiv|medrxiv|chemrxiv|preprint|research square|ssrn)\b/i;
+
+const decode = (text: string): string => {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    // Malformed escapes: match against the raw text
+    return text;
+  }
+};
+
+export const extractDoi = (text?: string): string | undefined => {
+  if (!text) return undefined;
+  const match = decode(text).match(DOI_PATTERN);
+  // Trailing punctuation is almost never part of a DOI
+  return match ? match[0].replace(/[.,;)\]]+$/, '').toLowerCase() : undefined;
+};
+
+// "2101.01234" or "hep-th/9901001", without the version suffix
+export const extractArxivId = (text?: string): string | undefined => {
+  if (!text) return undefined;
+  const match = text.match(ARXIV_NEW) || text.match(ARXIV_OLD);
+  return match ? match[1].toLowerCase() : undefined;
+};
+
+export const extractPmid = (text?: string): string | undefined => text?.match(PMID_PATTERN)?.[1];
+
+// Host, path and query, without scheme, "www.", fragment, tracking parameters or trailing slash.
+// The query stays because it often names the paper (e.g. "stamp.jsp?arnumber=…", "citation.cfm?id=…").
+// A bare host or root page (e.g. "https://www.nature.com/") identifies no paper and gives undefined.
+export const normalizeUrl = (url?: string): string | undefined => {
+  if (!url) return undefined;
+  const clean = url.trim().toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/#.*$/, '');
+  const queryStart = clean.indexOf('?');
+  const path = (queryStart === -1 ? clean : clean.slice(0, queryStart)).replace(/\/+$/, '');
+  const params = queryStart === -1 ? [] : clean.slice(queryStart + 1).split('&')
+    .filter(param => param && !param.startsWith('utm_'));
+  const normalized = params.length > 0 ? `${path}?${params.join('&')}` : path;
+  return /[/?]/.test(normalized) ? normalized : undefined;
+};
+
+// Lowercase words only; markup and punctuation removed
+export const normalizeTitle = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+    .replace(/<[^>]+>/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+const wordBigrams = (normalized: string): string[] => {
+  const words = normalized.split(' ').filter(Boolean);
+  if (words.length < 2) return words;
+  return words.slice(1).map((w, i) => `${words[i]} ${w}`);
+};
+
+// Dice coefficient over word bigrams; robust to punctuation and small wording changes
+const bigramSimilarity = (aGrams: string[], bGrams: string[]): number => {
+  if (aGrams.length === 0 || bGrams.length === 0) return 0;
+  const remaining = [...bGrams];
+  let overlap = 0;
+  for (const gram of aGrams) {
+    const idx = remaining.indexOf(gram);
+    if (idx !== -1) {
+      overlap++;
+      remaining.splice(idx, 1);
+    }
+  }
+  return (2 * overlap) / (aGrams.length + bGrams.length);
+};
+
+export const titleSimilarity = (a: string, b: string): number => {
+  const normA = normalizeTitle(a);
+  const normB = normalizeTitle(b);
+  if (normA && normA === normB) return 1;
+  return bigramSimilarity(wordBigrams(normA), wordBigrams(normB));
+};
+
+// Whether two titles name the same paper; short titles must match exactly
+export const sameTitle = (a: string, b: string): boolean => {
+  const normA = normalizeTitle(a);
+  const normB = normalizeTitle(b);
+  if (!normA || !normB) return false;
+  if (normA === normB) return true;
+  const shortest = Math.min(normA.split(' ').length, normB.split(' ').length);
+  return shortest >= MIN_FUZZY_TITLE_WORDS && titleSimilarity(normA, normB) >= TITLE_MATCH_THRESHOLD;
+};
+
+// Everything identity depends on, computed once per reference object
+interface Fingerprint {
+  doi?: string;
+  arxiv?: string;
+  pmid?: string;
+  url?: string;
+  title: string;
+  titleWords: number;
+  bigrams: string[];
+  year?: number;
+  firstAuthor?: string;
+  preprint: boolean;
+}
+
+const fingerprints = new WeakMap<Reference, Fingerprint>();
+
+const fingerprint = (ref: Reference): Fingerprint => {
+  const cached = fingerprints.get(ref);
+  if (cached) return cached;
+
+  const doi = extractDoi(ref.doi) || extractDoi(ref.url);
+  const arxiv = extractArxivId(ref.url) || extractArxivId(ref.doi) || extractArxivId(ref.publication);
+  const title = normalizeTitle(ref.title);
+  const family = realAuthors(ref.authors)[0]?.family;
+  const year = parseInt((ref.year.match(/\d{4}/) || [''])[0]);
+
+  const result: Fingerprint = {
+    doi,
+    arxiv,
+    pmid: extractPmid(ref.url),
+    // Generic DOI links say nothing beyond the DOI itself
+    url: ref.url && !extractDoi(ref.url) ? normalizeUrl(ref.url) : undefined,
+    title,
+    titleWords: title ? title.split(' ').length : 0,
+    bigrams: wordBigrams(title),
+    year: isNaN(year) ? undefined : year,
+    firstAuthor: family ? normalizeTitle(family) : undefined,
+    preprint: !!arxiv
+      || (!!doi && PREPRINT_DOI_PREFIXES.some(prefix => doi.startsWith(prefix)))
+      || PREPRINT_VENUE.test(ref.publication),
+  };
+  fingerprints.set(ref, result);
+  return result;
+};
+
+export const isPreprint = (ref: Reference): boolean => fingerprint(ref).preprint;
+
+export const sameReference = (a: Reference, b: Reference): boolean => {
+  if (a === b) return true;
+  const fa = fingerprint(a);
+  const fb = fingerprint(b);
+
+  // Shared identifiers settle it
+  if (fa.doi && fa.doi === fb.doi) return true;
+  if (fa.arxiv && fa.arxiv === fb.arxiv) return true;
+  if (fa.pmid && fa.pmid === fb.pmid) return true;
+  // A shared link is only a hint: models reuse landing and search pages for different papers
+  const sameUrl = !!fa.url && fa.url === fb.url;
+
+  // Two different publisher DOIs are two papers, however alike the titles (e.g. "Editorial")
+  if (fa.doi && fb.doi && !fa.preprint && !fb.preprint) return false;
+
+  // A preprint may be published a year or two later; otherwise allow online-first vs. print
+  if (fa.year && fb.year && Math.abs(fa.year - fb.year) > (fa.preprint || fb.preprint ? 2 : 1)) return false;
+
+  if (!fa.title || !fb.title) return false;
+  if (fa.title === fb.title) return true;
+  if (Math.min(fa.titleWords, fb.titleWords) < MIN_FUZZY_TITLE_WORDS) return false;
+
+  const similarity = bigramSimilarity(fa.bigrams, fb.bigrams);
+  if (similarity >= TITLE_CERTAIN_THRESHOLD) return true;
+  if (similarity < TITLE_MATCH_THRESHOLD) return false;
+  // Close but not identical titles also need the same link or the same first author, when both are known
+  return sameUrl || !fa.firstAuthor || !fb.firstAuthor || fa.firstAuthor === fb.firstAuthor;
+};
+
+// An exact key for maps: the strongest identifier, or the normalized title and year
+export const identityKey = (ref: Reference): string => {
+  const f = fingerprint(ref);
+  if (f.doi && !f.preprint) return `doi:${f.doi}`;
+  if (f.arxiv) return `arxiv:${f.arxiv}`;
+  if (f.doi) return `doi:${f.doi}`;
+  if (f.pmid) return `pmid:${f.pmid}`;
+  return `title:${f.title}-${f.year ?? ''}`;
+};
+
+// Which copy of a duplicate to keep: the published version, then a verified one
+const preference = (ref: Reference): number =>
+  (isPreprint(ref) ? 0 : 2)
+  + (ref.verification && ref.verification.status !== VerificationStatus.UNRESOLVED ? 1 : 0);
+
+// One reference from two copies of the same paper. The preferred copy wins; the other fills its gaps
+// and, if it is the preprint of a published paper, is kept as `preprintUrl`.
+export const mergeReferences = (a: Reference, b: Reference): Reference => {
+  const [base, other] = preference(b) > preference(a) ? [b, a] : [a, b];
+  const counts = [base.citationCount, other.citationCount].filter((n): n is number => n !== undefined);
+  const otherIsPreprintOfBase = isPreprint(other) && !isPreprint(base);
+
+  return {
+    ...base,
+    authors: realAuthors(base.authors).length >= realAuthors(other.authors).length ? base.authors : other.authors,
+    summary: base.summary || other.summary,
+    relevance: base.relevance || other.relevance,
+    citationCount: counts.length > 0 ? Math.max(...counts) : undefined,
+    // A preprint DOI must not end up on the published version
+    doi: base.doi || (otherIsPreprintOfBase ? undefined : other.doi),
+    preprintUrl: base.preprintUrl || (otherIsPreprintOfBase ? other.url : other.preprintUrl),
+    groundingSources: mergeGroundingSources(base.groundingSources, other.groundingSources),
+  };
+};
+
+// Merges duplicates within a list, keeping each paper at the position it first appeared
+export const dedupeReferences = (references: Reference[]): Reference[] => {
+  const result: Reference[] = [];
+  references.forEach(ref => {
+    const index = result.findIndex(existing => sameReference(existing, ref));
+    if (index === -1) result.push(ref);
+    else result[index] = mergeReferences(result[index], ref);
+  });
+  return result;
+};
+
+// Drops references that are the same paper as any in `seen`
+export const excludeKnown = (references: Reference[], seen: Reference[]): Reference[] =>
+  references.filter(ref => !seen.some(known => sameReference(known, ref)));
+
+// Lookup for large collections (e.g. an imported library): candidates are bucketed by identifier
+// and by the first words of the title, so only a handful are compared in full
+export interface ReferenceIndex<T> {
+  find: (ref: Reference) => T | undefined;
+  add: (ref: Reference, item: T) => void;
+}
+
+export const createReferenceIndex = <T>(): ReferenceIndex<T> => {
+  const buckets = new Map<string, { ref: Reference; item: T }[]>();
+
+  const bucketKeys = (ref: Reference): string[] => {
+    const f = fingerprint(ref);
+    const keys = [
+      f.doi && `doi:${f.doi}`,
+      f.arxiv && `arxiv:${f.arxiv}`,
+      f.pmid && `pmid:${f.pmid}`,
+      f.url && `url:${f.url}`,
+      f.title && `title:${f.title.split(' ').slice(0, 3).join(' ')}`,
+    ];
+    return keys.filter((key): key is string => !!key);
+  };
+
+  return {
+    find: (ref) => {
+      for (const key of bucketKeys(ref)) {
+        const match = buckets.get(key)?.find(candidate => sameReference(candidate.ref, ref));
+        if (match) return match.item;
+      }
+      return undefined;
+    },
+    add: (ref, item) => {
+      bucketKeys(ref).forEach(key => {
+        const bucket = buckets.get(key);
+        if (bucket) bucket.push({ ref, item });
+        else buckets.set(key, [{ ref, item }]);
+      });
+    },
+  };
+};
@@ -0,0 +1,111 @@
+import { LibraryEntry, Reference, SearchResultData, SupportAssessment } from "../types";
+import { ImportedReference } from "./libraryImport";
+import { createReferenceIndex, identityKey, sameReference } from "./referenceIdentity";
+
+// The personal reference library, kept in localStorage across manuscripts.
+// Accepting a search result adds it here once; highlights then cite the entry by id.
+
+const LIBRARY_KEY = 'sciref.library';
+
+export const loadLibrary = (): LibraryEntry[] => {
+  try {
+    const raw = localStorage.getItem(LIBRARY_KEY);
+    return raw ? (JSON.parse(raw) as LibraryEntry[]) : [];
+  } catch (e) {
+    console.warn("Could not read the reference library:", e);
+    return [];
+  }
+};
+
+// False when the browser refused to store it, usually because of the storage quota
+export const saveLibrary = (library: LibraryEntry[]): boolean => {
+  try {
+    localStorage.setItem(LIBRARY_KEY, JSON.stringify(library));
+    return true;
+  } catch (e) {
+    console.error("Could not save the reference library:", e);
+    return false;
+  }
+};
+
+// Unique even when several references are accepted in the same millisecond
+let lastEntryTime = 0;
+export const createLibraryEntry = (
+  reference: Reference,
+  extras: Partial<Pick<LibraryEntry, 'tags' | 'citationKey'>> = {}
+): LibraryEntry => {
+  lastEntryTime = Math.max(Date.now(), lastEntryTime + 1);
+  // A support rating and the grounding pages belong to the search that found it, not to the paper
+  const { support, groundingSources, ...paper } = reference;
+  return { id: `ref-${lastEntryTime}`, reference: paper, tags: [], addedAt: Date.now(), ...extras };
+};
+
+// The entry for the same paper, including its preprint or published version
+export const findLibraryEntry = (library: LibraryEntry[], ref: Reference): LibraryEntry | undefined =>
+  library.find(entry => sameReference(entry.reference, ref));
+
+// What a highlight cites, with a key for numbering: its pinned library entries, or else its search results.
+// Results already in the library are replaced by the library copy, so edits and numbers carry over;
+// `support` is the result's rating against this highlight, which the library copy doesn't hold.
+export const citedReferences = (
+  data: SearchResultData,
+  library: LibraryEntry[]
+): { key: string; reference: Reference; support?: SupportAssessment }[] => {
+  const pinned = (data.pinned || [])
+    .map(id => library.find(entry => entry.id === id))
+    .filter((entry): entry is LibraryEntry => !!entry);
+  if (pinned.length > 0) return pinned.map(entry => ({ key: entry.id, reference: entry.reference }));
+
+  if (data.status !== 'success') return [];
+  return data.visible.map(ref => {
+    const entry = findLibraryEntry(library, ref);
+    return entry
+      ? { key: entry.id, reference: entry.reference, support: ref.support }
+      : { key: identityKey(ref), reference: ref, support: ref.support };
+  });
+};
+
+// All tags in use, alphabetically
+export const libraryTags = (library: LibraryEntry[]): string[] =>
+  [...new Set(library.flatMap(entry => entry.tags))].sort((a, b) => a.localeCompare(b));
+
+// Adds references from a BibTeX or CSL-JSON import; papers already in the library are left as they are
+export const importIntoLibrary = (
+  library: LibraryEntry[],
+  items: ImportedReference[]
+): { library: LibraryEntry[]; added: number; duplicates: number } => {
+  // Indexed, since imported libraries can hold thousands of papers
+  const index = createReferenceIndex<true>();
+  library.forEach(entry => index.add(entry.reference, true));
+  const merged = [...library];
+  let duplicates = 0;
+  items.forEach(({ reference, tags, citationKey }) => {
+    if (index.find(reference)) {
+      duplicates++;
+      return;
+    }
+    merged.push(createLibraryEntry(reference, { tags, citationKey }));
+    index.add(reference, true);
+  });
+  return { library: merged, added: merged.length - library.length, duplicates };
+};
+
+// Adds entries from a shared project. Papers already in the library keep the local copy;
+// `ids` maps each incoming id to the id it has now, so pins can be rewritten.
+export const mergeLibrary = (
+  library: LibraryEntry[],
+  incoming: LibraryEntry[]
+): { library: LibraryEntry[]; ids: Record<string, string> } => {
+  const merged = [...library];
+  const ids: Record<string, string> = {};
+  incoming.forEach(entry => {
+    const existing = merged.find(e => e.id === entry.id) || findLibraryEntry(merged, entry.reference);
+    if (existing) {
+      ids[entry.id] = existing.id;
+    } else {
+      merged.push(entry);
+      ids[entry.id] = entry.id;
+    }
+  });
+  return { library: merged, ids };
+};
@@ -0,0 +1,158 @@
+import { EvidenceMode, ProviderId, ProviderRequest, ProviderResult, ReferenceProvider, SearchPreferences, SelectionContext, DisapprovalHistoryItem, PreferenceProfile, Reference } from "../types";
+import { geminiProvider } from "./geminiService";
+import { openaiProvider, localProvider } from "./openaiService";
+import { fixtureProvider } from "./fixtureProvider";
+import { cacheKey, getCachedResult, putCachedResult } from "./resultCache";
+import { classifyError, createSearchSignal, describeSearchError, withRetry } from "./requestControl";
+import { dedupeReferences, excludeKnown, sameTitle } from "./referenceIdentity";
+import { applyProfile } from "./preferenceProfile";
+import { mergeGrounding } from "./grounding";
+
+const PROVIDERS: Record<ProviderId, ReferenceProvider> = {
+  [ProviderId.GEMINI]: geminiProvider,
+  [ProviderId.OPENAI]: openaiProvider,
+  [ProviderId.LOCAL]: localProvider,
+  [ProviderId.FIXTURE]: fixtureProvider,
+};
+
+export const listProviders = (): ReferenceProvider[] => Object.values(PROVIDERS);
+
+export const getProvider = (id?: ProviderId): ReferenceProvider =>
+  (id && PROVIDERS[id]) || PROVIDERS[ProviderId.GEMINI];
+
+export const DEFAULT_TIMEOUT_MS = 90_000;
+
+// Per-session settings that are not part of the search itself
+export interface FetchOptions {
+  apiKey?: string;
+  baseUrl?: string; // For providers with a configurable endpoint
+  metadataUrl?: string;
+  bypassCache?: boolean; // Always query the provider; the fresh result still replaces the cached one
+  signal?: AbortSignal; // Abort to cancel the search
+  timeoutMs?: number; // For the whole search including retries and verification
+  profile?: PreferenceProfile; // Learned preferences, applied to the prompt and the results
+  seed?: Reference; // For "more like this" refills
+}
+
+export interface FetchResult extends ProviderResult {
+  cachedAt?: number; // Set when the result came from the cache
+}
+
+const buildRequest = (
+  context: SelectionContext,
+  prefs: SearchPreferences,
+  disapprovalHistory: DisapprovalHistoryItem[],
+  options: FetchOptions
+): ProviderRequest => ({
+  context,
+  prefs,
+  disapprovalHistory,
+  apiKey: options.apiKey,
+  baseUrl: options.baseUrl,
+  metadataUrl: options.metadataUrl,
+  profile: options.profile,
+  seed: options.seed,
+});
+
+// Rates each reference against the claim. The rating is an extra: if it fails, the references are
+// returned unrated rather than losing the search. Cancellation and timeouts still end the search.
+const assessSupport = async (
+  provider: ReferenceProvider,
+  references: Reference[],
+  request: ProviderRequest
+): Promise<Reference[]> => {
+  if (!provider.assessSupport) return references;
+  try {
+    return await provider.assessSupport(references, request);
+  } catch (error) {
+    if (request.signal?.aborted) throw error;
+    console.warn("Support assessment failed; keeping the references unrated:", error);
+    return references;
+  }
+};
+
+// Runs a provider call under one signal (cancel + timeout); transient failures are retried with backoff
+const runSearch = async (
+  provider: ReferenceProvider,
+  request: ProviderRequest,
+  step: (request: ProviderRequest) => Promise<ProviderResult>,
+  options: FetchOptions
+): Promise<ProviderResult> => {
+  const { signal, dispose } = createSearchSignal(options.signal, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  const controlled = { ...request, signal };
+  try {
+    const { references, rejected, grounding } = await withRetry(() => step(controlled), signal);
+    // Verification fills in DOIs, which is what reveals most duplicates (e.g. a preprint and its journal version)
+    const verified = dedupeReferences(await provider.verify(references, controlled));
+    // Verified metadata is what the profile's blocked venues and avoided papers are checked against
+    const kept = applyProfile(verified, request.profile);
+    return { references: await assessSupport(provider, kept, controlled), rejected, grounding };
+  } catch (error) {
+    throw classifyError(error, signal);
+  } finally {
+    dispose();
+  }
+};
+
+// The two searches of EvidenceMode.WITH_COUNTER run one after the other, so a search never takes more than
+// one slot's worth of provider calls from the queue. Only the main one is required: if the counter-evidence
+// search fails, the main results are returned with the reason in `counterError`.
+const searchWithCounterEvidence = async (
+  provider: ReferenceProvider,
+  request: ProviderRequest,
+  options: FetchOptions
+): Promise<ProviderResult> => {
+  const main = await runSearch(provider, request, provider.search, options);
+  let counter: ProviderResult;
+  try {
+    counter = await runSearch(provider, { ...request, counterEvidence: true }, provider.search, options);
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    return { ...main, counterEvidence: [], counterError: describeSearchError(error) };
+  }
+  // A paper in both lists is shown once, as a supporting result
+  return {
+    ...main,
+    counterEvidence: excludeKnown(counter.references, main.references),
+    grounding: mergeGrounding(main.grounding, counter.grounding),
+  };
+};
+
+// Step 1: search, Step 2: verification by the same provider. Repeated searches are served from the cache.
+export const fetchReferences = async (
+  context: SelectionContext,
+  prefs: SearchPreferences,
+  disapprovalHistory: DisapprovalHistoryItem[] = [],
+  options: FetchOptions = {}
+): Promise<FetchResult> => {
+  const provider = getProvider(prefs.provider);
+  const request = buildRequest(context, prefs, disapprovalHistory, options);
+  const key = cacheKey(request);
+
+  if (!options.bypassCache) {
+    const cached = getCachedResult(key);
+    if (cached) return { ...cached.result, cachedAt: cached.createdAt };
+  }
+
+  const result = prefs.evidenceMode === EvidenceMode.WITH_COUNTER
+    ? await searchWithCounterEvidence(provider, request, options)
+    : await runSearch(provider, request, provider.search, options);
+  // Not cached when the counter-evidence search failed, so repeating the search can fill it in
+  if (result.references.length > 0 && !result.counterError) putCachedResult(key, request, result);
+  return result;
+};
+
+// Used to refill the pool; prefs.excludeTitles should list references already seen
+export const fetchMoreReferences = async (
+  context: SelectionContext,
+  prefs: SearchPreferences,
+  disapprovalHistory: DisapprovalHistoryItem[] = [],
+  options: FetchOptions = {}
+): Promise<ProviderResult> => {
+  const provider = getProvider(prefs.provider);
+  const request = buildRequest(context, prefs, disapprovalHistory, options);
+  const result = await runSearch(provider, request, provider.fetchMore, options);
+  // Models do not always honour the exclusion list, and may return a known paper under a reworded title
+  const excluded = prefs.excludeTitles || [];
+  return { ...result, references: result.references.filter(ref => !excluded.some(title => sameTitle(title, ref.title))) };
+};
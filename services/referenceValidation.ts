@@ -0,0 +1,175 @@
+import { ProviderResult, Reference, RejectedReference } from "../types";
+import { extractDoi } from "./referenceIdentity";
+
+// The shape every provider response is held to. Sent as a response schema where the backend
+// supports it, embedded in the prompt otherwise, and always checked again at runtime.
+export const REFERENCE_LIST_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      title: { type: 'string', description: 'Paper title' },
+      authors: { type: 'array', items: { type: 'string' }, description: 'First author followed by "etc."' },
+      year: { type: 'string', description: 'Four-digit publication year' },
+      publication: { type: 'string', description: 'Journal or conference name' },
+      url: { type: 'string', description: 'Link to the paper or its DOI' },
+      doi: { type: 'string', description: 'DOI such as 10.xxxx/xxxxx, empty if unknown' },
+      summary: { type: 'string', description: 'Brief 1-sentence summary' },
+      relevance: { type: 'string', description: 'Why this matches the text' },
+      citationCount: { type: 'integer', description: 'Approximate citation count' },
+    },
+    required: ['title', 'authors', 'year', 'publication', 'url', 'summary', 'relevance'],
+  },
+};
+
+const SNIPPET_LENGTH = 120;
+
+const snippet = (text: string, from = 0): string => {
+  const begin = Math.max(0, from);
+  const part = text.slice(begin, begin + SNIPPET_LENGTH).replace(/\s+/g, ' ').trim();
+  return begin + SNIPPET_LENGTH < text.length ? `${part}…` : part;
+};
+
+// End offsets of each complete top-level element, and whether the array was closed
+const scanArray = (text: string, start: number): { elementEnds: number[]; closedAt: number } => {
+  const elementEnds: number[] = [];
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '[' || ch === '{') {
+      depth++;
+    } else if (ch === ']' || ch === '}') {
+      depth--;
+      if (depth === 1) elementEnds.push(i + 1);
+      if (depth === 0) return { elementEnds, closedAt: i + 1 };
+    }
+  }
+  return { elementEnds, closedAt: -1 };
+};
+
+const parseOrExplain = (json: string, offset: number, source: string): unknown => {
+  try {
+    return JSON.parse(json);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    const position = parseInt(message.match(/position (\d+)/)?.[1] || '', 10);
+    const near = Number.isNaN(position) ? '' : ` Near: "${snippet(source, offset + position - 20)}"`;
+    throw new Error(`The response is not valid JSON (${message}).${near}`);
+  }
+};
+
+// Finds the reference array in a model response. Throws an Error that says what was wrong with the text.
+export const parseReferenceArray = (text: string): { items: unknown[]; truncated: boolean } => {
+  const clean = text.replace(/```(?:json)?/g, '').trim();
+  if (!clean) throw new Error("The response was empty.");
+
+  const start = clean.indexOf('[');
+  if (start === -1) {
+    throw new Error(`The response contained no JSON array. It began: "${snippet(clean)}"`);
+  }
+
+  const { elementEnds, closedAt } = scanArray(clean, start);
+  if (closedAt !== -1) {
+    const parsed = parseOrExplain(clean.slice(start, closedAt), start, clean);
+    return { items: parsed as unknown[], truncated: false };
+  }
+
+  // Cut off mid-array (usually the output token limit): keep the elements that did arrive
+  const lastComplete = elementEnds[elementEnds.length - 1];
+  if (!lastComplete) {
+    throw new Error(`The response was cut off before the first complete reference (${clean.length} characters received).`);
+  }
+  const parsed = parseOrExplain(`${clean.slice(start, lastComplete)}]`, start, clean);
+  return { items: parsed as unknown[], truncated: true };
+};
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const HTTP_URL = /^https?:\/\/[^\s/$.?#][^\s]*$/i;
+const YEAR = /^(1[5-9]|20)\d{2}$/;
+
+const validateItem = (item: unknown): { reference?: Reference; problems: string[] } => {
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    return { problems: ['not an object'] };
+  }
+  const raw = item as Record<string, unknown>;
+  const problems: string[] = [];
+
+  if (!isNonEmptyString(raw.title)) problems.push('missing title');
+
+  const authors = Array.isArray(raw.authors) ? raw.authors : null;
+  if (!authors || authors.length === 0 || !authors.every(isNonEmptyString)) {
+    problems.push('authors must be a non-empty list of names');
+  }
+
+  // Models sometimes send the year as a number
+  const year = typeof raw.year === 'number' ? String(raw.year) : raw.year;
+  if (typeof year !== 'string' || !YEAR.test(year.trim())) {
+    problems.push(`year ${JSON.stringify(raw.year ?? null)} is not a four-digit year`);
+  }
+
+  if (!isNonEmptyString(raw.publication)) problems.push('missing publication');
+
+  const doi = typeof raw.doi === 'string' ? extractDoi(raw.doi) : undefined;
+  let url = typeof raw.url === 'string' ? raw.url.trim() : '';
+  // A bare DOI in the url field is still a usable link
+  if (url && !HTTP_URL.test(url) && extractDoi(url)) url = `https://doi.org/${extractDoi(url)}`;
+  if (raw.url !== undefined && typeof raw.url !== 'string') problems.push('url is not a string');
+  else if (url && !HTTP_URL.test(url)) problems.push(`url "${snippet(url)}" is not an http(s) link`);
+
+  for (const field of ['summary', 'relevance'] as const) {
+    if (raw[field] !== undefined && typeof raw[field] !== 'string') problems.push(`${field} is not a string`);
+  }
+
+  const count = typeof raw.citationCount === 'string' ? Number(raw.citationCount.replace(/,/g, '')) : raw.citationCount;
+  const citationCount = typeof count === 'number' && Number.isFinite(count) && count >= 0 ? Math.round(count) : undefined;
+
+  if (problems.length > 0) return { problems };
+
+  return {
+    problems,
+    reference: {
+      title: (raw.title as string).trim(),
+      authors: (authors as string[]).map(a => a.trim()),
+      year: (year as string).trim(),
+      publication: (raw.publication as string).trim(),
+      url: url || (doi ? `https://doi.org/${doi}` : ''),
+      summary: ((raw.summary as string) || '').trim(),
+      relevance: ((raw.relevance as string) || '').trim(),
+      ...(citationCount !== undefined && { citationCount }),
+      ...(doi && { doi }),
+    },
+  };
+};
+
+// Keeps the items that match the schema; the rest are reported instead of failing the search
+export const validateReferences = (items: unknown): ProviderResult => {
+  if (!Array.isArray(items)) {
+    throw new Error(`Expected a JSON array of references but got ${items === null ? 'null' : typeof items}.`);
+  }
+
+  const references: Reference[] = [];
+  const rejected: RejectedReference[] = [];
+  items.forEach((item, index) => {
+    const { reference, problems } = validateItem(item);
+    if (reference) {
+      references.push(reference);
+    } else {
+      const rawTitle = item && typeof item === 'object' ? (item as Record<string, unknown>).title : undefined;
+      const title = isNonEmptyString(rawTitle) ? rawTitle : undefined;
+      rejected.push({ index, title, problems });
+    }
+  });
+
+  if (rejected.length > 0) console.warn("Dropped invalid references from the response:", rejected);
+  return { references, rejected };
+};
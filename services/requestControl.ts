@@ -0,0 +1,120 @@
+// Cancellation, timeouts and retries shared by every search and refill.
+// Failures are plain Errors tagged with a `kind`, so the UI can tell quota, network and parse problems apart.
+
+export type SearchErrorKind = 'quota' | 'network' | 'server' | 'timeout' | 'cancelled' | 'parse' | 'auth' | 'unknown';
+
+export type SearchError = Error & { kind: SearchErrorKind };
+
+export const searchError = (kind: SearchErrorKind, message: string): SearchError =>
+  Object.assign(new Error(message), { kind });
+
+export const isSearchError = (error: unknown): error is SearchError =>
+  error instanceof Error && typeof (error as SearchError).kind === 'string';
+
+// Worth another attempt after a pause; everything else fails straight away
+const TRANSIENT_KINDS: SearchErrorKind[] = ['quota', 'network', 'server'];
+
+const ERROR_LABELS: Record<SearchErrorKind, string> = {
+  quota: 'Quota exceeded',
+  network: 'Network error',
+  server: 'Service unavailable',
+  timeout: 'Timed out',
+  cancelled: 'Cancelled',
+  parse: 'Unreadable response',
+  auth: 'API key problem',
+  unknown: 'Error',
+};
+
+const ERROR_HINTS: Partial<Record<SearchErrorKind, string>> = {
+  quota: 'Wait a minute and retry, switch to a faster model, or enter your own API key.',
+  network: 'Check your connection and retry.',
+  timeout: 'Retry, or raise the request timeout in the System settings.',
+};
+
+export const classifyError = (error: unknown, signal?: AbortSignal): SearchError => {
+  if (isSearchError(error)) return error;
+  // Our own abort reasons already say whether it was a timeout or the user
+  if (signal?.aborted && isSearchError(signal.reason)) return signal.reason;
+
+  const message = error instanceof Error ? error.message : String(error);
+  // HTTP errors from the SDK and from fetch-based providers carry the response status
+  const rawStatus = error && typeof error === 'object' ? (error as Record<string, unknown>).status : undefined;
+  const status = typeof rawStatus === 'number' ? rawStatus : undefined;
+
+  if (error instanceof Error && error.name === 'AbortError') return searchError('cancelled', 'The search was cancelled.');
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return searchError('quota', message);
+  if (status === 401 || status === 403 || /API key/i.test(message)) return searchError('auth', message);
+  if (status !== undefined && status >= 500) return searchError('server', message);
+  // fetch() rejects with a TypeError when the request never got an answer
+  if (error instanceof TypeError || /network|failed to fetch|fetch failed/i.test(message)) return searchError('network', message);
+  return searchError('unknown', message);
+};
+
+// The text stored in SearchResultData.errorMessage
+export const describeSearchError = (error: unknown): string => {
+  const { kind, message } = classifyError(error);
+  const hint = ERROR_HINTS[kind];
+  return `${ERROR_LABELS[kind]}: ${message}${hint ? ` ${hint}` : ''}`;
+};
+
+// Resolves after `ms`, or rejects as soon as the signal aborts
+const sleep = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+// Exponential backoff with full jitter: the n-th retry waits a random time up to base * 2^n
+export const withRetry = async <T>(
+  task: () => Promise<T>,
+  signal: AbortSignal,
+  { retries = 3, baseDelayMs = 1000, maxDelayMs = 15000 }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      const classified = classifyError(error, signal);
+      if (signal.aborted || attempt >= retries || !TRANSIENT_KINDS.includes(classified.kind)) throw classified;
+
+      const delay = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      console.warn(`Attempt ${attempt + 1} failed (${classified.kind}); retrying in ${Math.round(delay)} ms`);
+      await sleep(delay, signal);
+    }
+  }
+};
+
+// One signal for the whole search: aborted by the caller's signal or when the timeout passes
+export const createSearchSignal = (outer: AbortSignal | undefined, timeoutMs: number): { signal: AbortSignal; dispose: () => void } => {
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(searchError('timeout', `No answer within ${Math.round(timeoutMs / 1000)} seconds.`)),
+    timeoutMs
+  );
+  const onAbort = () => controller.abort(searchError('cancelled', 'The search was cancelled.'));
+
+  if (outer?.aborted) onAbort();
+  else outer?.addEventListener('abort', onAbort, { once: true });
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      outer?.removeEventListener('abort', onAbort);
+    },
+  };
+};
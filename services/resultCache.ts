@@ -0,0 +1,140 @@
+import { PreferenceProfile, ProviderRequest, ProviderResult, SearchPreferences } from "../types";
+
+// Verified search results kept in localStorage, so repeating a search doesn't spend quota again.
+// Entries expire after CACHE_TTL_MS; beyond the size limits the least recently used are dropped.
+
+const CACHE_KEY = 'sciref.resultCache';
+export const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const MAX_CACHE_ENTRIES = 100;
+const MAX_CACHE_CHARS = 2_000_000; // Roughly 4 MB of the ~5 MB localStorage quota at most
+
+export interface CacheEntry {
+  key: string;
+  label: string; // The highlighted text, for the inspector
+  provider: string;
+  model: string;
+  createdAt: number;
+  lastUsedAt: number;
+  result: ProviderResult;
+}
+
+type CacheStore = Record<string, CacheEntry>;
+
+const readStore = (): CacheStore => {
+  try {
+    const raw = localStorage.getItem(CACHE_KEY);
+    return raw ? (JSON.parse(raw) as CacheStore) : {};
+  } catch (e) {
+    console.warn("Could not read the result cache:", e);
+    return {};
+  }
+};
+
+const writeStore = (store: CacheStore) => {
+  const now = Date.now();
+  const entries = Object.values(store)
+    .filter(entry => now - entry.createdAt < CACHE_TTL_MS)
+    .sort((a, b) => b.lastUsedAt - a.lastUsedAt)
+    .slice(0, MAX_CACHE_ENTRIES);
+
+  let serialized = JSON.stringify(Object.fromEntries(entries.map(e => [e.key, e])));
+  while (serialized.length > MAX_CACHE_CHARS && entries.length > 0) {
+    entries.pop();
+    serialized = JSON.stringify(Object.fromEntries(entries.map(e => [e.key, e])));
+  }
+
+  try {
+    localStorage.setItem(CACHE_KEY, serialized);
+  } catch (e) {
+    // A full storage shouldn't break searching; the result just isn't cached
+    console.error("Could not write the result cache:", e);
+  }
+};
+
+// JSON with sorted object keys, so equal inputs always hash the same
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record).sort()
+      .filter(k => record[k] !== undefined)
+      .map(k => `${JSON.stringify(k)}:${stableStringify(record[k])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+// 53-bit string hash (cyrb53); a collision between a few hundred entries is not a concern
+const hashString = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+// supportedOnly is applied to the results afterwards; the same search serves both settings
+const searchPrefs = ({ supportedOnly, ...prefs }: SearchPreferences) => prefs;
+
+// The parts of the profile that change a search, without its bookkeeping
+const profileRules = ({ feedbackCount, updatedAt, signals, ...rules }: PreferenceProfile) => rules;
+
+// Everything that changes what a search returns: the selection, every preference (model and
+// provider included), the learned preference profile, earlier removals at this highlight,
+// and the endpoint and resolver used
+export const cacheKey = (request: ProviderRequest): string =>
+  hashString(stableStringify({
+    context: request.context,
+    prefs: searchPrefs(request.prefs),
+    profile: request.profile ? profileRules(request.profile) : null,
+    feedback: request.disapprovalHistory.map(h => `${h.reason}:${h.note || ''}:${h.reference.title}`),
+    metadataUrl: request.metadataUrl || '',
+    // Left out when unset, so Gemini keys stay the same as before providers had endpoints
+    baseUrl: request.baseUrl || undefined,
+  }));
+
+export const getCachedResult = (key: string): CacheEntry | null => {
+  const store = readStore();
+  const entry = store[key];
+  if (!entry || Date.now() - entry.createdAt >= CACHE_TTL_MS) return null;
+
+  store[key] = { ...entry, lastUsedAt: Date.now() };
+  writeStore(store);
+  return entry;
+};
+
+export const putCachedResult = (key: string, request: ProviderRequest, result: ProviderResult) => {
+  const store = readStore();
+  const now = Date.now();
+  store[key] = {
+    key,
+    label: request.context.highlightedText,
+    provider: request.prefs.provider,
+    model: request.prefs.model,
+    createdAt: now,
+    lastUsedAt: now,
+    result,
+  };
+  writeStore(store);
+};
+
+// Newest first; expired entries are left out
+export const listCacheEntries = (): CacheEntry[] => {
+  const now = Date.now();
+  return Object.values(readStore())
+    .filter(entry => now - entry.createdAt < CACHE_TTL_MS)
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteCacheEntry = (key: string) => {
+  const store = readStore();
+  delete store[key];
+  writeStore(store);
+};
+
+export const clearCache = () => localStorage.removeItem(CACHE_KEY);
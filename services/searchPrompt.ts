@@ -0,0 +1,118 @@
+import { ProviderRequest, SortPriority } from "../types";
+import { describeProfile } from "./preferenceProfile";
+
+// The search prompt shared by every LLM provider. `searchTool` names the web search the model can
+// call (e.g. "Google Search"); providers without one get an instruction to cite only papers it knows.
+
+export const buildSearchPrompt = (
+  request: ProviderRequest,
+  { batchSize, searchTool }: { batchSize: number; searchTool?: string }
+): string => {
+  const { context, prefs, profile, seed, disapprovalHistory, counterEvidence } = request;
+
+  // Format filters for the prompt
+  const publisherReq = prefs.publisherFilter.length > 0 
+    ? `Limit results to these publishers/groups: ${prefs.publisherFilter.join(', ')}.` 
+    : 'Include any reputable scientific publisher.';
+    
+  const typeReq = prefs.sourceTypes.length > 0
+    ? `Limit results to these document types: ${prefs.sourceTypes.join(', ')}.`
+    : 'Prioritize Research Articles and Reviews.';
+
+  // Exclusion logic
+  const exclusionReq = prefs.excludeTitles && prefs.excludeTitles.length > 0
+    ? `DO NOT include the following papers as they have already been reviewed: ${JSON.stringify(prefs.excludeTitles)}.`
+    : '';
+
+  // Constraints learned from the user's feedback
+  const historyReq = describeProfile(profile).join('\n    - ');
+
+  // Why the user removed earlier results for this text, in their own words where given
+  const feedbackReq = disapprovalHistory.length > 0
+    ? `The user removed these earlier results for this text; avoid papers with the same problems: ${disapprovalHistory.map(h => `"${h.reference.title}" (${h.note || h.reason})`).join('; ')}.`
+    : '';
+
+  // "More like this": the chosen paper steers the search more than the highlight itself
+  const seedReq = seed
+    ? `The user wants more papers like "${seed.title}" (${seed.publication}, ${seed.year}): ${seed.summary} Find papers on the same specific question, with similar methods or findings, that also support the highlighted text.`
+    : '';
+
+  // Determine Priority Instruction based on selection
+  let priorityReq = "";
+  switch (prefs.priority) {
+    case SortPriority.HIGH_IMPACT:
+      priorityReq = "Strictly prioritize papers published in journals with the HIGHEST Impact Factors. List results in descending order of journal impact factor.";
+      break;
+    case SortPriority.MOST_CITED:
+      priorityReq = "Strictly prioritize papers with the HIGHEST citation counts. List results in descending order of citation count.";
+      break;
+    case SortPriority.NEWEST:
+      priorityReq = "Strictly prioritize the most recently published papers. List results in descending order of publication date (Newest First).";
+      break;
+    default:
+      priorityReq = "Prioritize papers that are most contextually relevant to the highlighted text.";
+      break;
+  }
+
+  // Counter-evidence searches look for the opposite of what the claim needs
+  const taskReq = counterEvidence
+    ? "Find valid, existing, and high-quality academic papers that CHALLENGE the user's highlighted text: papers that dispute it, report contradicting results, fail to replicate the underlying findings, or offer competing explanations or alternatives."
+    : "Find valid, existing, and high-quality academic references based on the user's highlighted text and context.";
+  const selectionReq = counterEvidence
+    ? "Select papers whose findings contradict, qualify or compete with the highlighted text under its context. Do NOT include papers that simply support it. In \"relevance\", say how the paper challenges the claim."
+    : "Select papers that strongly support or relate to the highlighted text under the its context (the immediate text before the hightlight).";
+
+  // Without a search tool the model can only draw on what it knows, and the registry catches the rest
+  const sourceReq = searchTool
+    ? `Use ${searchTool} to find REAL papers. Do not hallucinate citations.`
+    : 'Only include REAL papers you are confident exist, with their exact titles, venues and DOIs. Do not hallucinate citations: every reference is checked against a DOI registry.';
+
+  // Constructing the prompt based on user requirements
+  return `
+    You are an expert academic research assistant. 
+    The user is writing a scientific paper and needs references for a specific statement.
+    
+    **Task**: ${taskReq}
+    
+    **Context**:
+    - The entire paragraph text is: "${context.fullText}"
+    - The user has HIGHLIGHTED this specific text to find references for: "${context.highlightedText}"
+    - **CONTEXT of highlighted text** The immediate text before the highlight is: "${context.precedingContext}"
+      use this context to disambiguate the highlighted text and find the most accurate references.
+
+    **Search Criteria**:
+    - Find the top ${batchSize} matches.
+    - **Priority**: ${priorityReq}
+    - Published after year: ${prefs.yearStart || 'Any'}
+    - ${publisherReq}
+    - ${typeReq}
+    - ${exclusionReq}
+    - ${historyReq}
+    - ${feedbackReq}
+    - ${seedReq}
+
+    **Instructions**:
+    1. ${sourceReq}
+    2. ${selectionReq}
+    3. Return the result strictly as a JSON array. 
+    4. The "authors" field should only contain the first author and "etc.".
+    5. Keep "summary" and "relevance" fields concise (max 50 words each).
+    6. Estimate the citation count for the paper if available (approximate is fine).
+    7. Include the paper's DOI in "doi" if it has one; leave it empty rather than guessing.
+    
+    **Output JSON Schema**:
+    [
+      {
+        "title": "Paper Title",
+        "authors": ["Author 1", "etc."],
+        "year": "YYYY",
+        "publication": "Journal/Conference Name",
+        "url": "Link to the paper or DOI",
+        "doi": "10.xxxx/xxxxx",
+        "summary": "Brief 1-sentence summary.",
+        "relevance": "Why this matches the text.",
+        "citationCount": 150
+      }
+    ]
+  `;
+};
@@ -0,0 +1,100 @@
+import { searchError } from "./requestControl";
+
+// Runs searches a few at a time so a burst of highlights doesn't trip the provider's rate limit.
+// Jobs wait in FIFO order unless moved to the front with prioritize().
+
+export const DEFAULT_CONCURRENCY = 2;
+
+interface Job {
+  id: string;
+  start: () => void;
+  reject: (error: Error) => void;
+}
+
+export interface SearchQueue {
+  // `onStart` runs when the job leaves the queue, right before the task
+  enqueue: <T>(id: string, task: () => Promise<T>, onStart?: () => void) => Promise<T>;
+  // Removes a waiting job and rejects it as cancelled; false if it isn't waiting
+  cancel: (id: string) => boolean;
+  prioritize: (id: string) => void;
+  setConcurrency: (limit: number) => void;
+  // Ids of waiting jobs, next to run first
+  getQueuedIds: () => string[];
+  subscribe: (listener: (queuedIds: string[]) => void) => () => void;
+}
+
+export const createSearchQueue = (initialConcurrency: number = DEFAULT_CONCURRENCY): SearchQueue => {
+  let concurrency = Math.max(1, initialConcurrency);
+  let running = 0;
+  let waiting: Job[] = [];
+  const listeners = new Set<(queuedIds: string[]) => void>();
+
+  const getQueuedIds = () => waiting.map(job => job.id);
+  const notify = () => {
+    const ids = getQueuedIds();
+    listeners.forEach(listener => listener(ids));
+  };
+
+  const pump = () => {
+    let changed = false;
+    while (running < concurrency && waiting.length > 0) {
+      const job = waiting.shift()!;
+      running++;
+      changed = true;
+      job.start();
+    }
+    if (changed) notify();
+  };
+
+  const cancel = (id: string): boolean => {
+    const job = waiting.find(j => j.id === id);
+    if (!job) return false;
+    waiting = waiting.filter(j => j !== job);
+    job.reject(searchError('cancelled', 'The search was cancelled before it started.'));
+    notify();
+    return true;
+  };
+
+  const enqueue = <T>(id: string, task: () => Promise<T>, onStart?: () => void): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      // A search is only queued once; a newer request for it replaces the waiting one
+      cancel(id);
+      waiting.push({
+        id,
+        reject,
+        start: () => {
+          onStart?.();
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              running--;
+              pump();
+            });
+        },
+      });
+      notify();
+      pump();
+    });
+
+  return {
+    enqueue,
+    cancel,
+    prioritize: (id) => {
+      const job = waiting.find(j => j.id === id);
+      if (!job) return;
+      waiting = [job, ...waiting.filter(j => j !== job)];
+      notify();
+    },
+    setConcurrency: (limit) => {
+      concurrency = Math.max(1, limit);
+      pump();
+    },
+    getQueuedIds,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
@@ -0,0 +1,80 @@
+import { DisapprovalHistoryItem, SearchPreferences, SearchResultData } from "../types";
+import { EditorSnapshot } from "./editorDocument";
+
+const INDEX_KEY = 'sciref.sessions';
+const SESSION_KEY_PREFIX = 'sciref.session.';
+const LAST_SESSION_KEY = 'sciref.lastSession';
+const MAX_SESSIONS = 20;
+
+export interface SessionMeta {
+  id: string;
+  title: string;
+  updatedAt: number;
+}
+
+export interface SessionData extends SessionMeta {
+  editor: EditorSnapshot;
+  searchHistory: Record<string, SearchResultData>;
+  disapprovalHistory: DisapprovalHistoryItem[];
+  prefs: SearchPreferences;
+  activeSearchId: string | null;
+}
+
+const readJson = <T>(key: string): T | null => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch (e) {
+    console.warn(`Could not read ${key} from storage:`, e);
+    return null;
+  }
+};
+
+export const createSessionId = (): string => `session-${Date.now()}`;
+
+// First line of the manuscript, shortened, so users can tell sessions apart
+export const sessionTitle = (text: string): string => {
+  const firstLine = text.trim().split('\n')[0] || 'Untitled manuscript';
+  return firstLine.length > 60 ? `${firstLine.slice(0, 60).trim()}…` : firstLine;
+};
+
+// Most recently edited first
+export const listSessions = (): SessionMeta[] =>
+  (readJson<SessionMeta[]>(INDEX_KEY) || []).sort((a, b) => b.updatedAt - a.updatedAt);
+
+export const loadSession = (id: string): SessionData | null => readJson<SessionData>(`${SESSION_KEY_PREFIX}${id}`);
+
+export const getLastSessionId = (): string | null => localStorage.getItem(LAST_SESSION_KEY);
+
+export const deleteSession = (id: string) => {
+  localStorage.removeItem(`${SESSION_KEY_PREFIX}${id}`);
+  if (getLastSessionId() === id) localStorage.removeItem(LAST_SESSION_KEY);
+  try {
+    localStorage.setItem(INDEX_KEY, JSON.stringify(listSessions().filter(s => s.id !== id)));
+  } catch (e) {
+    // The session itself is gone; its leftover menu entry opens nothing
+    console.error("Could not update the session index:", e);
+  }
+};
+
+export const saveSession = (session: SessionData) => {
+  const meta: SessionMeta = { id: session.id, title: session.title, updatedAt: session.updatedAt };
+  const index = [meta, ...listSessions().filter(s => s.id !== session.id)];
+
+  try {
+    localStorage.setItem(`${SESSION_KEY_PREFIX}${session.id}`, JSON.stringify(session));
+    localStorage.setItem(LAST_SESSION_KEY, session.id);
+  } catch (e) {
+    // Usually the storage quota; keep the app usable and report it
+    console.error("Could not save session:", e);
+    return;
+  }
+
+  // Drop the oldest sessions beyond the limit
+  index.slice(MAX_SESSIONS).forEach(s => localStorage.removeItem(`${SESSION_KEY_PREFIX}${s.id}`));
+  try {
+    localStorage.setItem(INDEX_KEY, JSON.stringify(index.slice(0, MAX_SESSIONS)));
+  } catch (e) {
+    console.error("Could not update the session index:", e);
+  }
+};
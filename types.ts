@@ -8,6 +8,49 @@ export interface Reference {
   summary: string;
   relevance: string;
   citationCount?: number;
+  doi?: string;
+  verification?: VerificationResult;
+  preprintUrl?: string; // Set when a preprint was merged into its published version
+  support?: SupportAssessment; // How well it backs the highlighted claim; absent if not assessed
+  groundingSources?: GroundingSource[]; // Pages a grounded search tied to it; absent for ungrounded providers
+}
+
+export interface GroundingSource {
+  title: string;
+  uri: string;
+  confidence?: number; // 0–1, how strongly the model tied this page to the reference
+}
+
+// The web searches behind a whole result list, as reported by the search tool. Stored once per search;
+// each reference only keeps the pages tied to it.
+export interface SearchGrounding {
+  queries: string[];
+  sources: GroundingSource[]; // Every page the searches consulted
+}
+
+export enum SupportStance {
+  SUPPORTS = 'supports',
+  PARTIAL = 'partially supports',
+  CONTRADICTS = 'contradicts',
+  UNRELATED = 'unrelated',
+}
+
+export interface SupportAssessment {
+  stance: SupportStance;
+  confidence: number; // 0–1
+  quote: string; // The passage the rating rests on
+}
+
+export enum VerificationStatus {
+  VERIFIED = 'verified',
+  CORRECTED = 'corrected',
+  UNRESOLVED = 'unresolved',
+}
+
+export interface VerificationResult {
+  status: VerificationStatus;
+  correctedFields?: string[]; // Which fields were replaced by the registry's canonical values
+  note?: string;
 }
 
 export enum SortPriority {
@@ -16,11 +59,24 @@ export enum SortPriority {
   HIGH_IMPACT = 'High Impact Journal',
 }
 
+// What kind of evidence a search looks for, besides its SortPriority
+export enum EvidenceMode {
+  SUPPORTING = 'Supporting evidence',
+  WITH_COUNTER = 'Supporting + counter-evidence',
+}
+
 export enum DisapprovalReason {
   NOT_NEW = 'not new',
   NOT_RELEVANT = 'not relevant',
   LOW_IMPACT = 'not highly cited',
   UNWANTED_SOURCE = 'unwanted source',
+  OTHER = 'other', // Free text or a custom reason, given in the note
+}
+
+// A removal reason the user defined for reuse
+export interface CustomReason {
+  id: string;
+  label: string;
 }
 
 export enum ModelId {
@@ -29,14 +85,41 @@ export enum ModelId {
   FAST = 'gemini-flash-lite-latest',
 }
 
+export enum ProviderId {
+  GEMINI = 'gemini',
+  OPENAI = 'openai', // Any OpenAI-compatible chat completions API
+  LOCAL = 'local', // A self-hosted OpenAI-compatible server such as Ollama or llama.cpp
+  FIXTURE = 'fixture',
+}
+
+export interface ModelOption {
+  id: string;
+  label: string;
+}
+
+// What the user enters to connect to a provider; kept per provider so switching doesn't lose a key
+export interface ProviderSettings {
+  apiKey: string;
+  baseUrl: string; // Empty for providers with a fixed endpoint
+}
+
+// The settings a provider takes, shown in the System settings while it is selected
+export interface ProviderConnection {
+  keyPlaceholder?: string; // Set if it takes an API key
+  defaultBaseUrl?: string; // Set if its endpoint can be changed
+}
+
 export interface SearchPreferences {
   numReferences: number;
   priority: SortPriority;
+  evidenceMode?: EvidenceMode; // Absent in searches saved before it existed: supporting only
   publisherFilter: string[];
   sourceTypes: string[];
   yearStart: string;
   excludeTitles?: string[]; // To prevent duplicates when fetching more
   model: string;
+  provider: ProviderId;
+  supportedOnly?: boolean; // Drop results rated anything but "supports"
 }
 
 export interface SelectionContext {
@@ -45,7 +128,7 @@ export interface SelectionContext {
   precedingContext: string;
 }
 
-export type SearchStatus = 'loading' | 'success' | 'error';
+export type SearchStatus = 'queued' | 'loading' | 'success' | 'error';
 
 export interface SearchResultData {
   id: string;
@@ -56,10 +139,112 @@ export interface SearchResultData {
   context: SelectionContext;
   errorMessage?: string;
   isRefilling?: boolean; // specific loading state for fetching more
+  rejected?: RejectedReference[]; // Response items dropped by validation
+  cachedAt?: number; // When the cached result was first fetched, if it came from the cache
+  pinned?: string[]; // Library entries cited at this highlight, in order; replace `visible` in the export
+  libraryMatches?: LibraryMatch[]; // Library entries ranked against the claim when the search started
+  approved?: string[]; // Identity keys of results the user kept; they are never replaced
+  counterEvidence?: Reference[]; // Papers disputing the claim, from EvidenceMode.WITH_COUNTER
+  counterError?: string; // Why the counter-evidence search failed, when the main one succeeded
+  grounding?: SearchGrounding; // Web searches behind the results, including refills
+}
+
+// A reference in the personal library. The library holds each paper once; highlights cite it by id.
+export interface LibraryEntry {
+  id: string;
+  reference: Reference; // The user's copy; edits apply wherever it is cited
+  tags: string[];
+  addedAt: number;
+  citationKey?: string; // From an imported BibTeX or CSL-JSON library
+}
+
+// A library entry that shares terms with a highlighted claim
+export interface LibraryMatch {
+  entryId: string;
+  score: number; // 0–1: share of the claim's weighted terms the entry matches
+  terms: string[]; // Claim terms found in the entry, for display
 }
 
 export interface DisapprovalHistoryItem {
   reference: Reference;
   reason: DisapprovalReason;
+  note?: string; // The user's own words, e.g. "wrong organism"
+  searchId?: string; // The highlight it was removed from
   timestamp: number;
 }
+
+// A paper the user approved or starred, used as a positive example in later searches
+export interface LikedPaper {
+  title: string;
+  publication: string;
+  year: string;
+  summary?: string;
+  favorite?: boolean; // Starred: kept until unstarred; other approvals roll off
+  likedAt: number;
+}
+
+// What the user's feedback has taught about their preferences. Kept across sessions, editable,
+// and applied to every search on top of the per-search preferences.
+export interface PreferenceProfile {
+  blockedVenues: string[]; // Journals and conferences never to suggest
+  minYear?: number; // Follows the "not new" signals; a hint to the model, not a filter
+  minCitations?: number; // Follows the "not highly cited" signals; a hint to the model, not a filter
+  avoidTopics: string[]; // Terms of "not relevant" papers at several different highlights
+  avoidTitles: string[]; // Papers marked "not relevant", most recent last
+  likedPapers: LikedPaper[]; // Positive examples, most recent last
+  signals: ProfileSignals;
+  feedbackCount: number; // Disapprovals learned from
+  updatedAt?: number;
+}
+
+// The evidence behind the learned thresholds and topics, so that no single click sets them
+export interface ProfileSignals {
+  notNewYears: number[]; // Years of papers marked "not new", most recent last
+  lowImpactCitations: number[]; // Citation counts of papers marked "not highly cited", most recent last
+  topicHighlights: Record<string, string[]>; // Term of a "not relevant" paper -> the highlights (search ids) it came up at
+}
+
+// Everything a provider needs to run one search against its backend
+export interface ProviderRequest {
+  context: SelectionContext;
+  prefs: SearchPreferences;
+  disapprovalHistory: DisapprovalHistoryItem[]; // Earlier removals at this highlight
+  profile?: PreferenceProfile;
+  seed?: Reference; // "More like this": find papers similar to this one
+  counterEvidence?: boolean; // Look for papers that dispute the claim instead of supporting it
+  apiKey?: string;
+  baseUrl?: string; // Endpoint of providers with a configurable one
+  metadataUrl?: string; // Base URL of the Crossref-compatible resolver
+  signal?: AbortSignal; // Aborted on cancel or timeout; providers should pass it to their network calls
+}
+
+// An item in a provider response that failed validation
+export interface RejectedReference {
+  index: number; // Position in the response
+  title?: string;
+  problems: string[];
+}
+
+export interface ProviderResult {
+  references: Reference[];
+  rejected: RejectedReference[];
+  counterEvidence?: Reference[]; // Set by fetchReferences in EvidenceMode.WITH_COUNTER
+  counterError?: string;
+  grounding?: SearchGrounding; // Set by providers with a grounded web search
+}
+
+export interface ReferenceProvider {
+  id: ProviderId;
+  name: string;
+  connection?: ProviderConnection;
+  models?: ModelOption[]; // Offered in the model selector; absent if the provider takes no model
+  defaultModel?: string;
+  // Models available at the configured endpoint, for providers whose models depend on the server
+  listModels?: (settings: ProviderSettings, signal?: AbortSignal) => Promise<string[]>;
+  search: (request: ProviderRequest) => Promise<ProviderResult>;
+  verify: (references: Reference[], request: ProviderRequest) => Promise<Reference[]>;
+  // Called when the pool runs dry; prefs.excludeTitles lists what is already shown
+  fetchMore: (request: ProviderRequest) => Promise<ProviderResult>;
+  // Rates how well each reference supports request.context.highlightedText; same order as the input
+  assessSupport?: (references: Reference[], request: ProviderRequest) => Promise<Reference[]>;
+}